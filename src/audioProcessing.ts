@@ -0,0 +1,266 @@
+import { spawn } from "node:child_process";
+import { Schema } from "./schema";
+
+export interface LoudnormTarget {
+  // EBU R128 targets, e.g. -16 LUFS, -1.5 dBTP, and 11 LU for TV speakers
+  readonly integratedLoudness: number;
+  readonly truePeak: number;
+  readonly loudnessRange: number;
+}
+
+export type DynamicRangeCompressionPreset = "light" | "medium" | "heavy";
+
+export interface AudioProcessingConfig {
+  // two-pass loudness normalization of the transcoded stream
+  readonly loudnorm?: LoudnormTarget | undefined;
+  // the gain of the center channel when downmixing to stereo, where most of the dialogue is, e.g. 1.5
+  readonly centerGain?: number | undefined;
+  readonly dynamicRangeCompression?: DynamicRangeCompressionPreset | undefined;
+}
+
+export interface LoudnormMeasurement {
+  readonly inputIntegratedLoudness: string;
+  readonly inputTruePeak: string;
+  readonly inputLoudnessRange: string;
+  readonly inputThreshold: string;
+  readonly targetOffset: string;
+}
+
+// the surround channels of the layouts that have a center channel, in ffmpeg's channel names
+const surroundChannels: { [channelLayout: string]: readonly string[] } = {
+  "5.0": ["BL", "BR"],
+  "5.0(side)": ["SL", "SR"],
+  "5.1": ["BL", "BR"],
+  "5.1(side)": ["SL", "SR"],
+  "6.1": ["BC", "SL", "SR"],
+  "7.1": ["BL", "BR", "SL", "SR"],
+};
+
+// acompressor thresholds are linear, e.g. 0.1 is -20 dBFS
+const dynamicRangeCompressionFilters: {
+  readonly [preset in DynamicRangeCompressionPreset]: string;
+} = {
+  light: "acompressor=threshold=0.1:ratio=2:attack=20:release=250:makeup=1.5",
+  medium: "acompressor=threshold=0.063:ratio=3:attack=10:release=200:makeup=2",
+  heavy: "acompressor=threshold=0.0316:ratio=6:attack=5:release=150:makeup=3",
+};
+
+const dynamicRangeCompressionPresets = Object.keys(
+  dynamicRangeCompressionFilters
+);
+
+// the settings of the movie override the settings of the output profile one by one
+export function mergeAudioProcessingConfigs(
+  profileAudioProcessing: AudioProcessingConfig | undefined,
+  movieAudioProcessing: AudioProcessingConfig | undefined
+): AudioProcessingConfig {
+  return { ...profileAudioProcessing, ...movieAudioProcessing };
+}
+
+// the filters before loudnorm, which the measurement pass has to apply as well to measure the same signal
+export function getPreLoudnormFilters(
+  sourceChannelLayout: string,
+  audioChannels: number | undefined,
+  audioFilter: string | undefined,
+  audioProcessing: AudioProcessingConfig
+): readonly string[] {
+  const ret: string[] = [];
+
+  const surround = surroundChannels[sourceChannelLayout];
+  if (
+    audioProcessing.centerGain !== undefined &&
+    audioChannels === 2 &&
+    surround !== undefined
+  ) {
+    const { centerGain } = audioProcessing;
+    const backCenter = surround.filter((c) => c === "BC");
+    // "<" renormalizes the gains so that the boosted center does not clip
+    const getChannelMix = (channel: string, side: string) =>
+      `${channel}<${centerGain}*FC+${channel}${[
+        ...surround.filter((c) => c !== "BC" && c.endsWith(side)),
+        ...backCenter,
+      ]
+        .map((c) => `+0.707*${c}`)
+        .join("")}`;
+    ret.push(
+      `pan=stereo|${getChannelMix("FL", "L")}|${getChannelMix("FR", "R")}`
+    );
+  } else if (
+    audioChannels !== undefined &&
+    (audioProcessing.dynamicRangeCompression !== undefined ||
+      audioProcessing.loudnorm !== undefined)
+  ) {
+    // downmix before compressing and normalizing, -ac would only downmix after the filters
+    ret.push(`aformat=channel_layouts=${audioChannels}c`);
+  }
+
+  if (audioProcessing.dynamicRangeCompression !== undefined) {
+    ret.push(
+      dynamicRangeCompressionFilters[audioProcessing.dynamicRangeCompression]
+    );
+  }
+
+  if (audioFilter !== undefined) {
+    ret.push(audioFilter);
+  }
+
+  return ret;
+}
+
+// linear normalization with the values of the measurement pass, then back to 48 kHz from loudnorm's 192 kHz
+export function getLoudnormFilters(
+  target: LoudnormTarget,
+  measurement: LoudnormMeasurement
+): readonly string[] {
+  return [
+    [
+      `loudnorm=I=${target.integratedLoudness}`,
+      `TP=${target.truePeak}`,
+      `LRA=${target.loudnessRange}`,
+      `measured_I=${measurement.inputIntegratedLoudness}`,
+      `measured_TP=${measurement.inputTruePeak}`,
+      `measured_LRA=${measurement.inputLoudnessRange}`,
+      `measured_thresh=${measurement.inputThreshold}`,
+      `offset=${measurement.targetOffset}`,
+      "linear=true",
+    ].join(":"),
+    "aresample=48000",
+  ];
+}
+
+export function getLoudnessMeasurementArguments(
+  inputFilePath: string,
+  streamIndex: number,
+  preLoudnormFilters: readonly string[],
+  target: LoudnormTarget
+): readonly string[] {
+  return [
+    "-hide_banner",
+    "-nostats",
+    "-i",
+    inputFilePath,
+    "-map",
+    `0:${streamIndex}`,
+    "-filter:a",
+    [
+      ...preLoudnormFilters,
+      `loudnorm=I=${target.integratedLoudness}:TP=${target.truePeak}:LRA=${target.loudnessRange}:print_format=json`,
+    ].join(","),
+    "-f",
+    "null",
+    "-",
+  ];
+}
+
+// the first pass of loudnorm, which decodes the whole audio stream and is therefore killed when the conversion is aborted
+export function measureLoudness(
+  ffmpegBinaryPath: string,
+  measurementArguments: readonly string[],
+  abortSignal: AbortSignal | undefined
+): Promise<LoudnormMeasurement> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new Error("Loudness measurement was aborted"));
+      return;
+    }
+    const ffmpeg = spawn(ffmpegBinaryPath, measurementArguments);
+    const onAbort = () => {
+      ffmpeg.kill();
+    };
+    abortSignal?.addEventListener("abort", onAbort);
+
+    let stderr = "";
+    ffmpeg.stderr.setEncoding("utf8");
+    ffmpeg.stderr.on("data", (data) => {
+      stderr += data;
+    });
+
+    ffmpeg.on("error", (error) => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      reject(new Error(`Loudness measurement failed: ${error.message}`));
+    });
+
+    ffmpeg.on("close", (exitCode) => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      if (abortSignal?.aborted) {
+        reject(new Error("Loudness measurement was aborted"));
+        return;
+      }
+      if (exitCode !== 0) {
+        reject(new Error(`Loudness measurement failed:\n${stderr}`));
+        return;
+      }
+      try {
+        resolve(parseLoudnormStats(stderr));
+      } catch (ex) {
+        reject(ex);
+      }
+    });
+  });
+}
+
+export const audioProcessingConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    loudnorm: {
+      type: "object",
+      description: "two-pass loudness normalization of the transcoded stream",
+      properties: {
+        integratedLoudness: { type: "number", minimum: -70, maximum: -5 },
+        truePeak: { type: "number", minimum: -9, maximum: 0 },
+        loudnessRange: { type: "number", minimum: 1, maximum: 50 },
+      },
+      required: ["integratedLoudness", "truePeak", "loudnessRange"],
+      additionalProperties: false,
+    },
+    centerGain: {
+      type: "number",
+      description:
+        "the gain of the center channel when downmixing to stereo, e.g. 1.5",
+      exclusiveMinimum: 0,
+    },
+    dynamicRangeCompression: {
+      type: "string",
+      enum: dynamicRangeCompressionPresets,
+    },
+  },
+  additionalProperties: false,
+};
+
+function parseLoudnormStats(stderr: string): LoudnormMeasurement {
+  // loudnorm prints its stats as the last JSON object of the log
+  const start = stderr.lastIndexOf("{");
+  const end = stderr.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error(`Loudness measurement printed no stats:\n${stderr}`);
+  }
+
+  let stats: { [key: string]: string };
+  try {
+    stats = JSON.parse(stderr.slice(start, end + 1));
+  } catch {
+    throw new Error(`Loudness measurement printed invalid stats:\n${stderr}`);
+  }
+
+  // silence is measured as -inf, which loudnorm does not accept as measured values
+  const statKeys = [
+    "input_i",
+    "input_tp",
+    "input_lra",
+    "input_thresh",
+    "target_offset",
+  ];
+  if (statKeys.some((key) => !Number.isFinite(Number(stats[key])))) {
+    throw new Error(
+      `Loudness measurement is incomplete: ${JSON.stringify(stats)}`
+    );
+  }
+
+  return {
+    inputIntegratedLoudness: stats["input_i"]!,
+    inputTruePeak: stats["input_tp"]!,
+    inputLoudnessRange: stats["input_lra"]!,
+    inputThreshold: stats["input_thresh"]!,
+    targetOffset: stats["target_offset"]!,
+  };
+}
@@ -0,0 +1,300 @@
+import { Config } from "./config";
+import {
+  formatOutputSizeEstimates,
+  getFreeBytes,
+  getTotalBytes,
+  OutputSizeEstimate,
+} from "./diskSpace";
+import { Ffprobe } from "./ffprobe";
+import { Movie } from "./movie";
+import { FileNaming } from "./naming";
+import { NamedOutputProfile, resolveOutputProfile } from "./outputProfile";
+import { ProgressView } from "./progress";
+import { formatSize, writeBatchReport } from "./report";
+import { runWithConcurrency } from "./scheduler";
+import { ConversionState } from "./state";
+
+// follows and controls the conversions of a batch, e.g. for the HTTP server
+export interface BatchObserver {
+  getAbortSignal(movie: Movie): AbortSignal | undefined;
+  onStarted?(movie: Movie): void;
+  // progress is normalized to [0, 1]
+  onProgress?(movie: Movie, progress: number, speed: number | undefined): void;
+  onFinished?(movie: Movie): void;
+  // the movie is not converted, e.g. because the disk is full
+  onSkipped?(movie: Movie, reason: string): void;
+}
+
+// converts the movies whose conversion info is collected, and returns the ones it started,
+// which are all of them unless shouldStop() turns true in the meantime, or the disk space runs out
+export async function convertMovies(
+  config: Config,
+  ffprobe: Ffprobe,
+  collectedMovies: readonly Movie[],
+  state: ConversionState,
+  shouldStop: () => boolean,
+  observer: BatchObserver | undefined,
+  // instead of aborting a batch that does not fit, e.g. in watch mode, where the batch is whatever happened to be waiting
+  convertFittingMovies: boolean
+): Promise<readonly Movie[]> {
+  const startedAt = new Date().toISOString();
+
+  const collectedEstimates = collectedMovies.map((movie) =>
+    movie.estimateOutputSize(
+      config.outputFolderPath,
+      getOutputProfile(config, movie).profile,
+      config.streamRetention,
+      state
+    )
+  );
+  const skippedMovies = checkDiskSpace(
+    config,
+    collectedMovies,
+    collectedEstimates,
+    convertFittingMovies
+  );
+  for (const movie of skippedMovies) {
+    observer?.onSkipped?.(movie, "not enough disk space for the batch");
+  }
+  const movies = collectedMovies.filter(
+    (movie) => !skippedMovies.includes(movie)
+  );
+  const estimates = collectedEstimates.filter(
+    (_, i) => !skippedMovies.includes(collectedMovies[i]!)
+  );
+  if (movies.length === 0) {
+    return [];
+  }
+
+  const progressView = new ProgressView(
+    movies.length,
+    movies.reduce(
+      (sum, movie) => sum + movie.getConversionInfo().containerDurationSeconds,
+      0
+    ),
+    observer?.onProgress === undefined
+      ? undefined
+      : (job) => {
+          observer.onProgress?.(job.movie, job.getProgress(), job.getSpeed());
+        }
+  );
+  const startedMovies: Movie[] = [];
+  const convertingMovies: Movie[] = [];
+  await runWithConcurrency(movies, config.concurrency ?? 1, async (movie) => {
+    // a movie can be cancelled before its conversion starts
+    const abortSignal = observer?.getAbortSignal(movie);
+    if (shouldStop() || abortSignal?.aborted) {
+      return;
+    }
+
+    // the disk may have filled up since the preflight, e.g. by other movies of the batch
+    const estimatedBytes = getTotalBytes(estimates[movies.indexOf(movie)]!);
+    if (!config.dryRun && estimatedBytes > 0) {
+      // the movies that are being converted still need their whole estimate at worst
+      const freeBytes =
+        getFreeBytesIfKnown(config.outputFolderPath) -
+        convertingMovies.reduce(
+          (sum, m) => sum + getTotalBytes(estimates[movies.indexOf(m)]!),
+          0
+        );
+      if (estimatedBytes > freeBytes) {
+        const reason = `not enough disk space, ${formatSize(
+          estimatedBytes
+        )} needed, ${formatSize(Math.max(freeBytes, 0))} free`;
+        if (config.diskSpaceCheck !== "warn") {
+          progressView.log(
+            `${movie.getFullyQualifiedName(false)}: skipping, ${reason}`
+          );
+          observer?.onSkipped?.(movie, reason);
+          return;
+        }
+        progressView.log(`${movie.getFullyQualifiedName(false)}: ${reason}`);
+      }
+    }
+
+    startedMovies.push(movie);
+    convertingMovies.push(movie);
+    observer?.onStarted?.(movie);
+    try {
+      await movie.convert(
+        config.outputFolderPath,
+        config.ffmpegBinaryPath,
+        ffprobe,
+        getOutputProfile(config, movie),
+        config.targetDevice,
+        config.streamRetention,
+        config.subtitleOcr,
+        config.nfo,
+        config.chapters,
+        config.metadataTagWhitelist,
+        config.stallTimeoutMinutes,
+        config.maxConversionAttempts ?? 3,
+        config.dryRun,
+        state,
+        progressView,
+        abortSignal
+      );
+    } finally {
+      convertingMovies.splice(convertingMovies.indexOf(movie), 1);
+      observer?.onFinished?.(movie);
+    }
+  });
+
+  const convertedMovies = movies.filter((movie) =>
+    startedMovies.includes(movie)
+  );
+  if (convertedMovies.length === 0) {
+    return convertedMovies;
+  }
+
+  try {
+    const reportFilePaths = writeBatchReport(config.outputFolderPath, {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      movies: convertedMovies.map((movie) => movie.getConversionReport()),
+    });
+    console.log(`\nReport written to ${reportFilePaths.join(" and ")}`);
+  } catch (ex) {
+    console.error(
+      `\nCould not write report: ${ex instanceof Error ? ex.message : ex}`
+    );
+  }
+
+  return convertedMovies;
+}
+
+// the movies whose outputs would have an empty name, or would overwrite the ones of an earlier movie of the batch,
+// e.g. two cuts without an edition, the conversion info of the movies has to be collected
+export function findOutputNameProblems(
+  outputFolderPath: string,
+  naming: FileNaming,
+  movies: readonly Movie[]
+): readonly { readonly movie: Movie; readonly reason: string }[] {
+  const ret: { readonly movie: Movie; readonly reason: string }[] = [];
+  const moviesByOutputFilePath = new Map<string, Movie>();
+  for (const movie of movies) {
+    if (!movie.hasValidOutputName()) {
+      ret.push({
+        movie,
+        reason:
+          "its output name would be empty, the title has no characters that are allowed in file names",
+      });
+      continue;
+    }
+    const outputFilePaths = movie.getExpectedOutputFilePaths(outputFolderPath);
+    const collidingOutputFilePath = outputFilePaths.find((outputFilePath) =>
+      moviesByOutputFilePath.has(naming.getComparablePath(outputFilePath))
+    );
+    if (collidingOutputFilePath !== undefined) {
+      const otherMovie = moviesByOutputFilePath.get(
+        naming.getComparablePath(collidingOutputFilePath)
+      )!;
+      ret.push({
+        movie,
+        reason: `${collidingOutputFilePath} is also the output of ${otherMovie.getFullyQualifiedName(
+          false
+        )}`,
+      });
+      continue;
+    }
+    for (const outputFilePath of outputFilePaths) {
+      moviesByOutputFilePath.set(
+        naming.getComparablePath(outputFilePath),
+        movie
+      );
+    }
+  }
+  return ret;
+}
+
+// the recheck is skipped if the free space cannot be determined, e.g. the output folder is on a network share that went away,
+// so that the conversion reports the actual error
+function getFreeBytesIfKnown(folderPath: string): number {
+  try {
+    return getFreeBytes(folderPath);
+  } catch {
+    return Infinity;
+  }
+}
+
+function getOutputProfile(config: Config, movie: Movie): NamedOutputProfile {
+  return resolveOutputProfile(
+    config.outputProfiles,
+    config.defaultOutputProfile,
+    movie.outputProfile
+  );
+}
+
+// the preflight of a batch, returns the movies that are not to be converted, all of them if the batch is aborted
+function checkDiskSpace(
+  config: Config,
+  movies: readonly Movie[],
+  estimates: readonly OutputSizeEstimate[],
+  convertFittingMovies: boolean
+): readonly Movie[] {
+  const totalBytes = estimates.reduce(
+    (sum, estimate) => sum + getTotalBytes(estimate),
+    0
+  );
+  let freeBytes: number;
+  try {
+    freeBytes = getFreeBytes(config.outputFolderPath);
+  } catch (ex) {
+    console.error(
+      `\nCould not check the free space of ${
+        config.outputFolderPath
+      }, converting anyway: ${ex instanceof Error ? ex.message : ex}`
+    );
+    return [];
+  }
+  const table = formatOutputSizeEstimates(
+    movies.map((movie, i) => ({
+      name: movie.getFullyQualifiedName(false),
+      estimate: estimates[i]!,
+    })),
+    freeBytes
+  );
+
+  if (totalBytes <= freeBytes) {
+    if (config.dryRun) {
+      console.log(`\nEstimated output sizes:\n${table}\n`);
+    }
+    return [];
+  }
+
+  console.log(
+    `\nThe outputs are estimated at ${formatSize(
+      totalBytes
+    )}, but only ${formatSize(freeBytes)} is free in ${
+      config.outputFolderPath
+    }:\n${table}\n`
+  );
+  // a dry run writes nothing
+  if (config.dryRun || config.diskSpaceCheck === "warn") {
+    return [];
+  }
+
+  if (convertFittingMovies) {
+    // in the order of the batch, a smaller movie can still fit after a larger one did not
+    let remainingBytes = freeBytes;
+    const ret = movies.filter((_, i) => {
+      const estimatedBytes = getTotalBytes(estimates[i]!);
+      if (estimatedBytes > remainingBytes) {
+        return true;
+      }
+      remainingBytes -= estimatedBytes;
+      return false;
+    });
+    console.log(
+      `Converting ${movies.length - ret.length} of the ${
+        movies.length
+      } movies, the others are retried later`
+    );
+    return ret;
+  }
+
+  console.log(
+    'ABORTING, free up space or set config.diskSpaceCheck to "warn" to convert anyway'
+  );
+  return movies;
+}
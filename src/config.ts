@@ -1,24 +1,195 @@
 import { existsSync, readFileSync } from "node:fs";
-import { IMovie, Movie } from "./movie";
+import { homedir } from "node:os";
+import { dirname, resolve } from "node:path";
+import {
+  TargetDevice,
+  targetDeviceSchema,
+  validateTargetDevice,
+} from "./device";
+import { DiskSpaceCheck } from "./diskSpace";
+import { getExternalSubtitleProblem } from "./externalSubtitles";
+import { HttpServerConfig, httpServerConfigSchema } from "./httpServer";
+import { parseJsonc } from "./jsonc";
+import {
+  ChapterConfig,
+  chapterConfigSchema,
+  metadataTagWhitelistSchema,
+  validateChapterConfig,
+} from "./metadata";
+import { IMovie, Movie, movieSchema } from "./movie";
+import {
+  FileNaming,
+  NamingConfig,
+  namingConfigSchema,
+  validateNamingConfig,
+} from "./naming";
+import { NfoConfig, nfoConfigSchema } from "./nfo";
+import {
+  SubtitleOcrConfig,
+  subtitleOcrConfigSchema,
+  validateSubtitleOcrConfig,
+} from "./ocr";
+import {
+  defaultOutputProfileName,
+  OutputProfiles,
+  outputProfilesSchema,
+  validateOutputProfiles,
+} from "./outputProfile";
+import { isObject, mapSchemaStrings, Schema, validateBySchema } from "./schema";
+import { ISeries, seriesSchema, validateSeriesConfig } from "./series";
+import {
+  StreamRetentionConfig,
+  streamRetentionConfigSchema,
+} from "./streamRetention";
+import {
+  StreamSelectionConfig,
+  streamSelectionConfigSchema,
+} from "./streamSelection";
+import { validateWatchConfig, WatchConfig, watchConfigSchema } from "./watch";
+
+// configs without a version are version 1, whose relative paths are resolved against the current folder,
+// since version 2 they are resolved against the folder of the config file
+export const currentConfigVersion = 2;
+
+const configSchema: Schema = {
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    version: { type: "integer", minimum: 1, maximum: currentConfigVersion },
+    ffmpegBinaryPath: { type: "string", format: "path" },
+    ffprobeBinaryPath: { type: "string", format: "path" },
+    outputFolderPath: { type: "string", format: "path" },
+    movies: { type: "array", items: movieSchema },
+    series: { type: "array", items: seriesSchema },
+    streamSelection: streamSelectionConfigSchema,
+    streamRetention: streamRetentionConfigSchema,
+    concurrency: { type: "integer", minimum: 1 },
+    stallTimeoutMinutes: {
+      type: "number",
+      description:
+        "a conversion is killed if ffmpeg makes no progress for this long",
+      exclusiveMinimum: 0,
+    },
+    maxConversionAttempts: {
+      type: "integer",
+      description:
+        "known ffmpeg failures are retried with a fallback, e.g. -fflags +genpts, until this many attempts",
+      minimum: 1,
+    },
+    diskSpaceCheck: {
+      type: "string",
+      description:
+        "whether a batch whose outputs are estimated not to fit into the output folder is aborted or only warned about, defaults to abort",
+      enum: ["abort", "warn"],
+    },
+    naming: namingConfigSchema,
+    outputProfiles: outputProfilesSchema,
+    defaultOutputProfile: { type: "string" },
+    targetDevice: targetDeviceSchema,
+    subtitleOcr: subtitleOcrConfigSchema,
+    nfo: nfoConfigSchema,
+    chapters: chapterConfigSchema,
+    metadataTagWhitelist: metadataTagWhitelistSchema,
+    dryRun: { type: "boolean" },
+    watch: watchConfigSchema,
+    httpServer: {
+      ...httpServerConfigSchema,
+      description: "only used in watch mode",
+    },
+  },
+  required: [
+    "ffmpegBinaryPath",
+    "ffprobeBinaryPath",
+    "outputFolderPath",
+    "movies",
+    "dryRun",
+  ],
+  additionalProperties: false,
+};
+
+// upgrades a config of the given version to the next one
+const migrations: {
+  readonly [fromVersion: number]: (config: unknown) => unknown;
+} = {
+  // the paths that start with ~ or $VAR are left to resolveConfigPath(), which expands them first
+  1: (config) => ({
+    ...(mapSchemaStrings(config, configSchema, "path", "config", (path) =>
+      /^[~$]/.test(path) ? path : resolve(path)
+    ) as object),
+    version: 2,
+  }),
+};
 
 export class Config {
   private constructor(
+    public readonly version: number,
     public readonly ffmpegBinaryPath: string,
     public readonly ffprobeBinaryPath: string,
     public readonly outputFolderPath: string,
     public readonly movies: readonly IMovie[],
-    public readonly dryRun: boolean
+    public readonly series: readonly ISeries[] | undefined,
+    public readonly streamSelection: StreamSelectionConfig | undefined,
+    public readonly streamRetention: StreamRetentionConfig | undefined,
+    public readonly concurrency: number | undefined,
+    // a conversion is killed if ffmpeg makes no progress for this long
+    public readonly stallTimeoutMinutes: number | undefined,
+    // known ffmpeg failures are retried with a fallback, e.g. -fflags +genpts, until this many attempts
+    public readonly maxConversionAttempts: number | undefined,
+    // whether a batch whose outputs are estimated not to fit into the output folder is aborted or only warned about, defaults to abort
+    public readonly diskSpaceCheck: DiskSpaceCheck | undefined,
+    // templates of the output folder and file names
+    public readonly naming: NamingConfig | undefined,
+    public readonly outputProfiles: OutputProfiles | undefined,
+    public readonly defaultOutputProfile: string | undefined,
+    public readonly targetDevice: TargetDevice | undefined,
+    public readonly subtitleOcr: SubtitleOcrConfig | undefined,
+    public readonly nfo: NfoConfig | undefined,
+    public readonly chapters: ChapterConfig | undefined,
+    public readonly metadataTagWhitelist: readonly string[] | undefined,
+    public readonly dryRun: boolean,
+    public readonly watch: WatchConfig | undefined,
+    // only used in watch mode
+    public readonly httpServer: HttpServerConfig | undefined
   ) {}
 
   public static parseFromFile(configFilePath: string): Config {
     const configFileContents = readFileSync(configFilePath, {
       encoding: "utf-8",
     });
-    return Config.parse(configFileContents);
+    let config: unknown;
+    try {
+      config = parseJsonc(configFileContents);
+    } catch (ex) {
+      throw new Error(
+        `${configFilePath} is not valid JSON: ${
+          ex instanceof Error ? ex.message : ex
+        }`
+      );
+    }
+    const problems: string[] = [];
+    const ret = Config.parse(
+      Config.migrate(config, configFilePath),
+      dirname(resolve(configFilePath)),
+      problems
+    );
+    if (problems.length > 0) {
+      throw new Error(`${configFilePath} is invalid:\n${problems.join("\n")}`);
+    }
+    return ret;
+  }
+
+  // for editor autocompletion, e.g. through "$schema" in the config file
+  public static getJsonSchema(): Schema {
+    return {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      title: "tvconvert config",
+      ...configSchema,
+    };
   }
 
   public static getExampleConfig(): Config {
     return {
+      version: currentConfigVersion,
       ffmpegBinaryPath: "/usr/local/bin/ffmpeg",
       ffprobeBinaryPath: "/usr/local/bin/ffprobe",
       outputFolderPath: "./converted",
@@ -27,81 +198,264 @@ export class Config {
           title: "The Matrix",
           year: 1999,
           inputFilePath: "./downloaded/The Matrix (1999)/The Matrix (1999).mkv",
+          externalSubtitles: [
+            {
+              path: "./downloaded/The Matrix (1999)/hungarian.srt",
+              language: "hun",
+              sync: {
+                framerate: { from: 25, to: 23.976 },
+                autoAlign: "speech",
+              },
+            },
+          ],
+        },
+      ],
+      series: [
+        {
+          title: "Breaking Bad",
+          year: 2008,
+          folderPath: "./downloaded/Breaking Bad",
         },
       ],
+      streamSelection: {
+        audio: [
+          {
+            name: "original 5.1 without commentary",
+            languages: ["eng"],
+            channelLayouts: ["5.1(side)", "5.1"],
+            excludeDispositions: ["comment", "visual_impaired"],
+          },
+        ],
+        subtitle: [
+          {
+            languages: ["hun", "eng"],
+            titleExclude: "sdh",
+            excludeDispositions: ["forced", "hearing_impaired"],
+          },
+        ],
+      },
+      streamRetention: {
+        languages: ["eng", "hun"],
+        keepTranscodedOriginal: true,
+        dropDispositions: ["comment", "visual_impaired"],
+        maxAudioStreams: 3,
+        maxSubtitleStreams: 4,
+      },
+      concurrency: 2,
+      stallTimeoutMinutes: 10,
+      maxConversionAttempts: 3,
+      diskSpaceCheck: "abort",
+      naming: {
+        movieFolder: "{title} ({year}) [{edition}]",
+        movieFile: "{title} ({year}) [{edition}]",
+        seriesFolder: "{title} ({year})",
+        seasonFolder: "Season {season}",
+        episodeFile: "{title} - S{season}E{episode}",
+        subtitleFile: "{name}.{lang}{forced}",
+        fileSystem: "windows",
+        transliterate: false,
+      },
+      outputProfiles: {
+        [defaultOutputProfileName]: {
+          audioCodec: "aac",
+          audioBitrate: "256k",
+          audioChannels: 2,
+          keepOriginalAudioStreams: true,
+        },
+        "ac3-passthrough": {
+          audioCodec: "copy",
+          keepOriginalAudioStreams: false,
+        },
+        "opus-dialogue-boost": {
+          audioCodec: "libopus",
+          audioBitrate: "192k",
+          audioChannels: 2,
+          audioFilter:
+            "pan=stereo|FL<FC+0.30*FL+0.30*SL|FR<FC+0.30*FR+0.30*SR,loudnorm",
+          keepOriginalAudioStreams: true,
+        },
+        "aac-night-mode": {
+          audioCodec: "aac",
+          audioBitrate: "256k",
+          audioChannels: 2,
+          audioProcessing: {
+            loudnorm: {
+              integratedLoudness: -16,
+              truePeak: -1.5,
+              loudnessRange: 11,
+            },
+            centerGain: 1.5,
+            dynamicRangeCompression: "medium",
+          },
+          keepOriginalAudioStreams: true,
+        },
+      },
+      defaultOutputProfile: defaultOutputProfileName,
+      targetDevice: {
+        name: "Living room TV",
+        capabilities: {
+          videoCodecs: [
+            {
+              codec: "h264",
+              profiles: ["Constrained Baseline", "Main", "High"],
+              maxLevel: 41,
+            },
+          ],
+          maxWidth: 1920,
+          maxHeight: 1080,
+          maxBitDepth: 8,
+          hdr: false,
+        },
+        videoTranscode: {
+          encoder: "libx264",
+          profile: "high",
+          level: "4.1",
+          crf: 20,
+          preset: "medium",
+          tonemap: true,
+        },
+      },
+      subtitleOcr: {
+        binaryPath: "/usr/local/bin/pgsrip",
+        arguments: ["--language", "{language}", "{input}", "{output}"],
+      },
+      nfo: {
+        fanartTimestampSeconds: 600,
+      },
+      chapters: {
+        mode: "rename",
+      },
+      metadataTagWhitelist: ["comment", "description"],
       dryRun: false,
+      watch: {
+        inputFolderPaths: ["./downloaded"],
+        stableSeconds: 60,
+        pollIntervalSeconds: 30,
+      },
+      httpServer: {
+        port: 8080,
+        host: "127.0.0.1",
+      },
     };
   }
 
-  private static parse(configString: string): Config {
-    const config: Config = JSON.parse(configString);
-
-    if (
-      typeof config.ffmpegBinaryPath !== "string" ||
-      !existsSync(config.ffmpegBinaryPath)
-    ) {
-      throw new Error("config.ffmpegBinaryPath does not exist");
+  private static migrate(config: unknown, configFilePath: string): unknown {
+    const version = isObject(config) ? config["version"] ?? 1 : undefined;
+    // invalid versions are reported by the schema
+    if (typeof version !== "number" || !(version < currentConfigVersion)) {
+      return config;
     }
 
-    if (
-      typeof config.ffprobeBinaryPath !== "string" ||
-      !existsSync(config.ffprobeBinaryPath)
-    ) {
-      throw new Error("config.ffprobeBinaryPath does not exist");
+    let ret = config;
+    for (let v = version; v < currentConfigVersion; ++v) {
+      const migration = migrations[v];
+      if (migration === undefined) {
+        return config;
+      }
+      ret = migration(ret);
     }
+    console.log(
+      `${configFilePath} is a version ${version} config, its relative paths are resolved against the current folder until it is upgraded to version ${currentConfigVersion}`
+    );
+    return ret;
+  }
 
-    if (
-      typeof config.outputFolderPath !== "string" ||
-      !existsSync(config.outputFolderPath)
-    ) {
-      throw new Error("config.outputFolderPath does not exist");
-    }
+  // collects every problem instead of stopping at the first one
+  private static parse(
+    configValue: unknown,
+    configFolderPath: string,
+    problems: string[]
+  ): Config {
+    problems.push(...validateBySchema(configValue, configSchema, "config"));
+    const config = mapSchemaStrings(
+      configValue,
+      configSchema,
+      "path",
+      "config",
+      (value, path) =>
+        resolveConfigPath(value, path, configFolderPath, problems)
+    ) as Config;
 
-    if (!Array.isArray(config.movies)) {
-      throw new Error("config.movies is not an array");
+    // the remaining checks rely on the types that the schema guarantees
+    if (problems.length > 0) {
+      return config;
     }
 
-    const movies = (config.movies as readonly IMovie[]).map((movie) =>
-      Movie.fromIMovie(movie)
-    );
-
-    const moviesWithInvalidInputFilePaths = movies.filter(
-      (movie) => !movie.hasValidInputFilePath()
-    );
-    if (moviesWithInvalidInputFilePaths.length > 0) {
-      throw new Error(
-        `The following input files do not exist:\n${moviesWithInvalidInputFilePaths
-          .map((movie) => movie.inputFilePath)
-          .join("\n")}`
-      );
+    for (const key of [
+      "ffmpegBinaryPath",
+      "ffprobeBinaryPath",
+      "outputFolderPath",
+    ] as const) {
+      if (!existsSync(config[key])) {
+        problems.push(`config.${key} does not exist`);
+      }
     }
 
-    const moviesWithInvalidTitles = movies.filter(
-      (movie) => !movie.hasValidTitle()
-    );
-    if (moviesWithInvalidTitles.length > 0) {
-      throw new Error(
-        `The following movie titles are invalid:\n${moviesWithInvalidTitles
-          .map((movie) => movie.title)
-          .join("\n")}`
-      );
-    }
+    const naming = FileNaming.create(config.naming);
+    config.movies.forEach((m, i) => {
+      const movie = Movie.fromIMovie(m, naming);
+      if (!movie.hasValidInputFilePath()) {
+        problems.push(`config.movies[${i}].inputFilePath does not exist`);
+      }
+      if (!movie.hasValidYear()) {
+        problems.push(`config.movies[${i}].year is in the future`);
+      }
+      if (!movie.hasValidOutputName()) {
+        problems.push(
+          `config.movies[${i}] would have an empty output name, it has no characters that are allowed in file names`
+        );
+      }
+      m.externalSubtitles?.forEach((externalSubtitle, j) => {
+        const problem = getExternalSubtitleProblem(externalSubtitle);
+        if (problem !== undefined) {
+          problems.push(
+            `config.movies[${i}].externalSubtitles[${j}] ${problem}`
+          );
+        }
+      });
+    });
 
-    const moviesWithInvalidYears = movies.filter(
-      (movie) => !movie.hasValidYear()
+    problems.push(
+      ...validateSeriesConfig(config.series),
+      ...validateOutputProfiles(
+        config.outputProfiles,
+        config.defaultOutputProfile,
+        config.movies.map((movie) => movie.outputProfile),
+        (config.series ?? []).map((series) => series.outputProfile)
+      ),
+      ...validateTargetDevice(config.targetDevice),
+      ...validateSubtitleOcrConfig(config.subtitleOcr),
+      ...validateChapterConfig(config.chapters),
+      ...validateWatchConfig(config.watch),
+      ...validateNamingConfig(config.naming)
     );
-    if (moviesWithInvalidYears.length > 0) {
-      throw new Error(
-        `The following movies' years are invalid:\n${moviesWithInvalidYears
-          .map((movie) => movie.title)
-          .join("\n")}`
-      );
-    }
-
-    if (typeof config.dryRun !== "boolean") {
-      throw new Error("config.dryRun is invalid");
-    }
 
     return config;
   }
 }
+
+// expands ~ and $VAR or ${VAR}, then resolves the path against the folder of the config file
+function resolveConfigPath(
+  value: string,
+  path: string,
+  configFolderPath: string,
+  problems: string[]
+): string {
+  const expandedValue = value
+    .replace(/^~(?=$|[\\/])/, homedir())
+    .replace(
+      /\$(?:\{(\w+)\}|(\w+))/g,
+      (match, bracedName: string | undefined, name: string | undefined) => {
+        const variableName = bracedName ?? name ?? "";
+        const variableValue = process.env[variableName];
+        if (variableValue === undefined) {
+          problems.push(
+            `${path} uses the undefined environment variable ${variableName}`
+          );
+          return match;
+        }
+        return variableValue;
+      }
+    );
+  return resolve(configFolderPath, expandedValue);
+}
@@ -0,0 +1,138 @@
+// the page of the HTTP server, which follows the queue through /api/events
+export const dashboardHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>tvconvert</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.4em; text-align: left; vertical-align: top; }
+  progress { width: 10em; }
+  pre { white-space: pre-wrap; max-height: 20em; overflow: auto; background: #f4f4f4; padding: 0.5em; }
+  .error { color: #b00; }
+</style>
+</head>
+<body>
+<h1>tvconvert</h1>
+<p id="connection">Connecting…</p>
+<table>
+  <thead><tr><th>#</th><th>Movie</th><th>Status</th><th>Progress</th><th></th></tr></thead>
+  <tbody id="movies"></tbody>
+</table>
+<div id="details"></div>
+<h2>Unidentified files</h2>
+<ul id="unidentified"></ul>
+<h2>Enqueue a movie</h2>
+<form id="enqueue">
+  <input name="title" placeholder="Title" required>
+  <input name="year" type="number" placeholder="Year" required>
+  <input name="inputFilePath" placeholder="Input file path" size="60" required>
+  <button>Enqueue</button>
+</form>
+<p id="error" class="error"></p>
+<script>
+  const movies = new Map();
+
+  function element(tag, text, attributes) {
+    const e = document.createElement(tag);
+    if (text !== undefined) e.textContent = text;
+    Object.assign(e, attributes);
+    return e;
+  }
+
+  async function post(path, body) {
+    const response = await fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await response.json();
+    document.getElementById("error").textContent = response.ok ? "" : json.error;
+    return json;
+  }
+
+  function render() {
+    const tbody = document.getElementById("movies");
+    tbody.replaceChildren();
+    for (const movie of movies.values()) {
+      const row = element("tr");
+      row.append(
+        element("td", String(movie.id)),
+        element("td", movie.title + " (" + movie.year + ")", { title: movie.inputFilePath }),
+        element("td", movie.status + (movie.reason ? ": " + movie.reason : ""))
+      );
+      const progressCell = element("td");
+      if (movie.status === "converting") {
+        progressCell.append(
+          element("progress", undefined, { max: 1, value: movie.progress }),
+          " " + (movie.progress * 100).toFixed(1) + "%" + (movie.speed === undefined || movie.speed === null ? "" : " at " + movie.speed + "x")
+        );
+      }
+      row.append(progressCell);
+      const actions = element("td");
+      actions.append(element("button", "Details", { onclick: () => showDetails(movie.id) }));
+      if (["waiting", "pending", "converting"].includes(movie.status)) {
+        actions.append(element("button", "Cancel", { onclick: () => post("/api/movies/" + movie.id + "/cancel", {}) }));
+      }
+      row.append(actions);
+      tbody.append(row);
+    }
+  }
+
+  function streamOption(stream) {
+    return element("option", "#" + stream.index + " " + [stream.language, stream.codecName, stream.channelLayout, stream.title].filter(Boolean).join(" "), { value: String(stream.index) });
+  }
+
+  async function showDetails(id) {
+    const details = await (await fetch("/api/movies/" + id)).json();
+    const container = document.getElementById("details");
+    container.replaceChildren(element("h2", details.title + " (" + details.year + ")"));
+    if (details.selectableStreams) {
+      const audio = element("select");
+      audio.append(...details.selectableStreams.audioStreams.map(streamOption));
+      const subtitle = element("select");
+      subtitle.append(element("option", "no subtitle", { value: "" }), ...details.selectableStreams.subtitleStreams.map(streamOption));
+      const answer = element("button", "Convert with these streams", {
+        onclick: () => post("/api/movies/" + id + "/stream-selection", {
+          audioStreamIndex: Number(audio.value),
+          subtitleStreamIndex: subtitle.value === "" ? null : Number(subtitle.value),
+        }),
+      });
+      container.append(element("p", "Audio: "), audio, element("p", "Subtitle: "), subtitle, element("p"), answer);
+    }
+    container.append(element("pre", JSON.stringify(details, null, 2)));
+  }
+
+  document.getElementById("enqueue").addEventListener("submit", (event) => {
+    event.preventDefault();
+    const form = event.target;
+    post("/api/movies", {
+      title: form.title.value,
+      year: Number(form.year.value),
+      inputFilePath: form.inputFilePath.value,
+    });
+  });
+
+  const events = new EventSource("/api/events");
+  events.onopen = () => { document.getElementById("connection").textContent = "Connected"; };
+  events.onerror = () => { document.getElementById("connection").textContent = "Disconnected, reconnecting…"; };
+  events.onmessage = (message) => {
+    const event = JSON.parse(message.data);
+    if (event.type === "queue") {
+      movies.clear();
+      for (const movie of event.movies) movies.set(movie.id, movie);
+      event.type = "unidentifiedFiles";
+      event.filePaths = event.unidentifiedFilePaths;
+    }
+    if (event.type === "entry") movies.set(event.entry.id, event.entry);
+    if (event.type === "removed") movies.delete(event.id);
+    if (event.type === "unidentifiedFiles") {
+      document.getElementById("unidentified").replaceChildren(...event.filePaths.map((filePath) => element("li", filePath)));
+    }
+    render();
+  };
+</script>
+</body>
+</html>
+`;
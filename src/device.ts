@@ -0,0 +1,241 @@
+import { VideoStream } from "./movie";
+import { Schema } from "./schema";
+
+export interface VideoCodecCapability {
+  readonly codec: string;
+  readonly profiles?: readonly string[];
+  // in ffprobe's representation, e.g. 41 for H.264 level 4.1
+  readonly maxLevel?: number;
+}
+
+export interface DeviceCapabilities {
+  readonly videoCodecs: readonly VideoCodecCapability[];
+  readonly maxWidth: number;
+  readonly maxHeight: number;
+  readonly maxBitDepth: number;
+  readonly hdr: boolean;
+}
+
+export interface VideoTranscodeSettings {
+  readonly encoder: string;
+  readonly profile: string;
+  readonly level: string;
+  readonly crf: number;
+  readonly preset: string;
+  readonly tonemap: boolean;
+}
+
+export interface TargetDevice {
+  readonly name: string;
+  readonly capabilities: DeviceCapabilities;
+  readonly videoTranscode: VideoTranscodeSettings;
+}
+
+const hdrTransferCharacteristics = ["smpte2084", "arib-std-b67"];
+
+export function isHdr(videoStream: VideoStream): boolean {
+  return hdrTransferCharacteristics.includes(videoStream.colorTransfer ?? "");
+}
+
+// in the naming of Kodi's hdrtype, undefined for SDR
+export function getHdrType(videoStream: VideoStream): string | undefined {
+  switch (videoStream.colorTransfer) {
+    case "smpte2084":
+      return "hdr10";
+    case "arib-std-b67":
+      return "hlg";
+    default:
+      return undefined;
+  }
+}
+
+export function getBitDepth(videoStream: VideoStream): number {
+  // e.g. yuv420p10le is 10-bit, yuv420p is 8-bit
+  const match = /p(\d+)(le|be)?$/.exec(videoStream.pixelFormat ?? "");
+  return match === null ? 8 : Number.parseInt(match[1]!, 10);
+}
+
+// returns the reasons why the device cannot play the video stream, or an empty list if it can
+export function getVideoIncompatibilities(
+  videoStream: VideoStream,
+  capabilities: DeviceCapabilities
+): readonly string[] {
+  const ret: string[] = [];
+
+  const codecCapability = capabilities.videoCodecs.find(
+    (c) => c.codec === videoStream.codecName
+  );
+  if (codecCapability === undefined) {
+    ret.push(`codec ${videoStream.codecName} is not supported`);
+  } else {
+    if (
+      codecCapability.profiles !== undefined &&
+      !codecCapability.profiles.includes(videoStream.profile ?? "")
+    ) {
+      ret.push(`profile ${videoStream.profile ?? "???"} is not supported`);
+    }
+    if (
+      codecCapability.maxLevel !== undefined &&
+      (videoStream.level ?? 0) > codecCapability.maxLevel
+    ) {
+      ret.push(
+        `level ${videoStream.level} exceeds ${codecCapability.maxLevel}`
+      );
+    }
+  }
+
+  if (
+    videoStream.width > capabilities.maxWidth ||
+    videoStream.height > capabilities.maxHeight
+  ) {
+    ret.push(
+      `resolution ${videoStream.width}x${videoStream.height} exceeds ${capabilities.maxWidth}x${capabilities.maxHeight}`
+    );
+  }
+
+  const bitDepth = getBitDepth(videoStream);
+  if (bitDepth > capabilities.maxBitDepth) {
+    ret.push(`${bitDepth}-bit color exceeds ${capabilities.maxBitDepth}-bit`);
+  }
+
+  if (isHdr(videoStream) && !capabilities.hdr) {
+    ret.push(`HDR (${videoStream.colorTransfer}) is not supported`);
+  }
+
+  return ret;
+}
+
+export function getVideoTranscodeArguments(
+  streamSpecifier: string,
+  videoStream: VideoStream,
+  targetDevice: TargetDevice
+): readonly string[] {
+  const { capabilities, videoTranscode } = targetDevice;
+
+  const filters = [
+    // downscale only, keeping the aspect ratio, and even dimensions since 4:2:0 chroma subsampling requires them
+    `scale=w='min(iw,${capabilities.maxWidth})':h='min(ih,${capabilities.maxHeight})':force_original_aspect_ratio=decrease:force_divisible_by=2`,
+  ];
+
+  if (isHdr(videoStream) && !capabilities.hdr && videoTranscode.tonemap) {
+    filters.push(
+      "zscale=t=linear:npl=100",
+      "format=gbrpf32le",
+      "zscale=p=bt709",
+      "tonemap=tonemap=hable:desat=0",
+      "zscale=t=bt709:m=bt709:r=tv"
+    );
+  }
+
+  // the encoder rejects 10-bit input for 8-bit profiles, e.g. "high" of libx264
+  filters.push(
+    getProfileBitDepth(videoTranscode.profile) >= 10
+      ? "format=yuv420p10le"
+      : "format=yuv420p"
+  );
+
+  return [
+    `-codec:${streamSpecifier}`,
+    videoTranscode.encoder,
+    `-profile:${streamSpecifier}`,
+    videoTranscode.profile,
+    `-level:${streamSpecifier}`,
+    videoTranscode.level,
+    `-crf:${streamSpecifier}`,
+    `${videoTranscode.crf}`,
+    `-preset:${streamSpecifier}`,
+    videoTranscode.preset,
+    `-filter:${streamSpecifier}`,
+    filters.join(","),
+  ];
+}
+
+// mirrors the scale filter of getVideoTranscodeArguments()
+export function getTranscodedVideoSize(
+  videoStream: VideoStream,
+  capabilities: DeviceCapabilities
+): { width: number; height: number } {
+  const { width, height } = videoStream;
+  const maxWidth = Math.min(width, capabilities.maxWidth);
+  const maxHeight = Math.min(height, capabilities.maxHeight);
+  const scaledWidth = Math.min(
+    maxWidth,
+    Math.round((maxHeight * width) / height)
+  );
+  const scaledHeight = Math.min(
+    maxHeight,
+    Math.round((maxWidth * height) / width)
+  );
+  // force_divisible_by rounds down
+  return {
+    width: scaledWidth - (scaledWidth % 2),
+    height: scaledHeight - (scaledHeight % 2),
+  };
+}
+
+// e.g. "high10" of libx264 or "main10" of libx265 is 10-bit, "high" and "main" are 8-bit
+function getProfileBitDepth(profile: string): number {
+  return /10|422|444/.test(profile) ? 10 : 8;
+}
+
+// the problems that the schema cannot tell, e.g. a 10-bit encoder profile for an 8-bit device
+export function validateTargetDevice(
+  targetDevice: TargetDevice | undefined
+): readonly string[] {
+  if (
+    targetDevice !== undefined &&
+    getProfileBitDepth(targetDevice.videoTranscode.profile) >
+      targetDevice.capabilities.maxBitDepth
+  ) {
+    return [
+      `config.targetDevice.videoTranscode.profile ${targetDevice.videoTranscode.profile} is 10-bit, but config.targetDevice.capabilities.maxBitDepth is ${targetDevice.capabilities.maxBitDepth}`,
+    ];
+  }
+  return [];
+}
+
+export const targetDeviceSchema: Schema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    capabilities: {
+      type: "object",
+      properties: {
+        videoCodecs: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              codec: { type: "string" },
+              profiles: { type: "array", items: { type: "string" } },
+              maxLevel: { type: "number" },
+            },
+            required: ["codec"],
+            additionalProperties: false,
+          },
+        },
+        maxWidth: { type: "integer", minimum: 1 },
+        maxHeight: { type: "integer", minimum: 1 },
+        maxBitDepth: { type: "integer", minimum: 1 },
+        hdr: { type: "boolean" },
+      },
+      required: ["videoCodecs", "maxWidth", "maxHeight", "maxBitDepth", "hdr"],
+      additionalProperties: false,
+    },
+    videoTranscode: {
+      type: "object",
+      properties: {
+        encoder: { type: "string" },
+        profile: { type: "string" },
+        level: { type: "string" },
+        crf: { type: "number" },
+        preset: { type: "string" },
+        tonemap: { type: "boolean" },
+      },
+      required: ["encoder", "profile", "level", "crf", "preset", "tonemap"],
+      additionalProperties: false,
+    },
+  },
+  required: ["name", "capabilities", "videoTranscode"],
+  additionalProperties: false,
+};
@@ -0,0 +1,104 @@
+import { statfsSync } from "node:fs";
+import { FfprobeStream } from "./ffprobe";
+import { formatSize } from "./report";
+
+// what happens when the outputs are estimated not to fit on the disk of the output folder
+export type DiskSpaceCheck = "abort" | "warn";
+
+export interface OutputSizeEstimate {
+  readonly mkvBytes: number;
+  readonly srtBytes: number;
+}
+
+// ffmpeg's AAC encoder defaults to 128k if the output profile sets no bitrate
+const defaultAudioBitrate = 128 * 1000;
+
+// the SRT of an image-based subtitle is far smaller than its images, and the size of a subtitle stream is rarely known
+export const estimatedSrtBytes = 200 * 1024;
+
+// from the statistics tags that mkvmerge writes, or from the bitrate, undefined if neither is known
+export function getStreamSizeBytes(
+  stream: FfprobeStream,
+  containerDurationSeconds: number
+): number | undefined {
+  // the tags can have a language suffix, e.g. NUMBER_OF_BYTES-eng
+  const tags = stream.tags ?? {};
+  const getTag = (name: string): string | undefined =>
+    Object.entries(tags).find(
+      ([key]) => key === name || key.startsWith(`${name}-`)
+    )?.[1];
+
+  const numberOfBytes = Number.parseInt(getTag("NUMBER_OF_BYTES") ?? "", 10);
+  if (Number.isFinite(numberOfBytes)) {
+    return numberOfBytes;
+  }
+
+  const bitrate = Number.parseInt(stream.bit_rate ?? getTag("BPS") ?? "", 10);
+  if (Number.isFinite(bitrate) && Number.isFinite(containerDurationSeconds)) {
+    return Math.round((bitrate * containerDurationSeconds) / 8);
+  }
+
+  return undefined;
+}
+
+// e.g. "256k" is 256000 bits per second
+export function getAudioBitrate(audioBitrate: string | undefined): number {
+  const match = /^(\d+(?:\.\d+)?)([kM]?)$/.exec(audioBitrate ?? "");
+  if (match === null) {
+    return defaultAudioBitrate;
+  }
+  const multiplier =
+    match[2] === "k" ? 1000 : match[2] === "M" ? 1000 * 1000 : 1;
+  return Number.parseFloat(match[1]!) * multiplier;
+}
+
+export function getTotalBytes(estimate: OutputSizeEstimate): number {
+  return estimate.mkvBytes + estimate.srtBytes;
+}
+
+// the space that is available to the user running the conversions, without the blocks reserved for root
+export function getFreeBytes(folderPath: string): number {
+  const { bavail, bsize } = statfsSync(folderPath);
+  return bavail * bsize;
+}
+
+export function formatOutputSizeEstimates(
+  rows: readonly {
+    readonly name: string;
+    readonly estimate: OutputSizeEstimate;
+  }[],
+  freeBytes: number
+): string {
+  const header = ["Movie", "MKV", "SRT", "Total"];
+  const totalBytes = rows.reduce(
+    (sum, { estimate }) => sum + getTotalBytes(estimate),
+    0
+  );
+  const allRows = [
+    header,
+    ...rows.map(({ name, estimate }) => [
+      name,
+      formatSize(estimate.mkvBytes),
+      formatSize(estimate.srtBytes),
+      formatSize(getTotalBytes(estimate)),
+    ]),
+    ["Batch", "", "", formatSize(totalBytes)],
+    ["Free", "", "", formatSize(freeBytes)],
+  ];
+  const columnWidths = header.map((_, i) =>
+    Math.max(...allRows.map((row) => (row[i] ?? "").length))
+  );
+  return allRows
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          // the sizes are right-aligned
+          i === 0
+            ? cell.padEnd(columnWidths[i]!)
+            : cell.padStart(columnWidths[i]!)
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
@@ -0,0 +1,150 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { Schema } from "./schema";
+import { SubtitleSyncConfig, subtitleSyncConfigSchema } from "./subtitleSync";
+
+export interface ExternalSubtitle {
+  readonly path: string;
+  readonly language: string;
+  // detected automatically if not set
+  readonly characterEncoding?: string | undefined;
+  readonly sync?: SubtitleSyncConfig | undefined;
+}
+
+const subtitleFileCodecNames: { [extension: string]: string } = {
+  ".srt": "subrip",
+  ".ass": "ass",
+  ".ssa": "ssa",
+};
+
+const iso6391ToIso6392LanguageCodes: { [code: string]: string } = {
+  cs: "cze",
+  de: "ger",
+  en: "eng",
+  es: "spa",
+  fr: "fre",
+  hr: "hrv",
+  hu: "hun",
+  it: "ita",
+  nl: "dut",
+  pl: "pol",
+  pt: "por",
+  ro: "rum",
+  ru: "rus",
+  sk: "slo",
+  sl: "slv",
+  sr: "srp",
+};
+
+// languages whose legacy subtitles are usually encoded in Windows-1250 instead of Windows-1252
+const centralEuropeanLanguages = [
+  "alb",
+  "bos",
+  "ces",
+  "cze",
+  "hrv",
+  "hun",
+  "pol",
+  "ron",
+  "rum",
+  "slk",
+  "slo",
+  "slv",
+  "sqi",
+  "srp",
+];
+
+export function getSubtitleFileCodecName(filePath: string): string | undefined {
+  return subtitleFileCodecNames[extname(filePath).toLowerCase()];
+}
+
+// finds subtitle files next to the input file whose names start with the input file's name,
+// e.g. "The Matrix (1999).hun.srt" or "The Matrix (1999).en.forced.ass" for "The Matrix (1999).mkv"
+export function discoverSidecarSubtitles(
+  inputFilePath: string
+): readonly ExternalSubtitle[] {
+  const inputFolderPath = dirname(inputFilePath);
+  const inputFileBaseName = basename(inputFilePath, extname(inputFilePath));
+
+  return readdirSync(inputFolderPath)
+    .filter(
+      (fileName) =>
+        fileName.startsWith(`${inputFileBaseName}.`) &&
+        getSubtitleFileCodecName(fileName) !== undefined
+    )
+    .sort()
+    .map((fileName) => ({
+      path: join(inputFolderPath, fileName),
+      language: getLanguageFromFileName(
+        fileName.slice(inputFileBaseName.length, -extname(fileName).length)
+      ),
+    }));
+}
+
+// returns undefined if the subtitle file is already UTF-8 encoded
+export function detectSubtitleCharacterEncoding(
+  externalSubtitle: ExternalSubtitle
+): string | undefined {
+  if (externalSubtitle.characterEncoding !== undefined) {
+    return externalSubtitle.characterEncoding;
+  }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(
+      readFileSync(externalSubtitle.path)
+    );
+    return undefined;
+  } catch {
+    // the language is the most reliable hint to tell apart the single-byte legacy encodings
+    return centralEuropeanLanguages.includes(externalSubtitle.language)
+      ? "windows-1250"
+      : "windows-1252";
+  }
+}
+
+export const externalSubtitleSchema: Schema = {
+  type: "object",
+  properties: {
+    path: { type: "string", format: "path" },
+    language: { type: "string", minLength: 1 },
+    characterEncoding: {
+      type: "string",
+      description: "detected automatically if not set",
+    },
+    sync: subtitleSyncConfigSchema,
+  },
+  required: ["path", "language"],
+  additionalProperties: false,
+};
+
+// returns undefined if the external subtitle can be used
+export function getExternalSubtitleProblem(
+  externalSubtitle: ExternalSubtitle
+): string | undefined {
+  const { path, sync } = externalSubtitle;
+  if (!existsSync(path)) {
+    return "does not exist";
+  }
+  if (getSubtitleFileCodecName(path) === undefined) {
+    return "is not an SRT, ASS, or SSA file";
+  }
+  if (sync !== undefined && getSubtitleFileCodecName(path) !== "subrip") {
+    return "cannot be synced, only SRT subtitles can be";
+  }
+  return undefined;
+}
+
+function getLanguageFromFileName(fileNameSuffix: string): string {
+  // the suffix looks like ".hun", ".en.forced", or empty
+  for (const part of fileNameSuffix.toLowerCase().split(".")) {
+    // "sdh" marks subtitles for the deaf and hard of hearing, e.g. "The Matrix (1999).eng.sdh.srt"
+    if (/^[a-z]{3}$/.test(part) && part !== "sdh") {
+      return part;
+    }
+    const iso6392LanguageCode = iso6391ToIso6392LanguageCodes[part];
+    if (iso6392LanguageCode !== undefined) {
+      return iso6392LanguageCode;
+    }
+  }
+  return "und";
+}
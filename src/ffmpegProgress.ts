@@ -0,0 +1,68 @@
+export interface FfmpegProgressEvent {
+  readonly outTimeSeconds: number | undefined;
+  // how many seconds of media are processed in one second
+  readonly speed: number | undefined;
+  readonly fps: number | undefined;
+  readonly bitrateKilobitsPerSecond: number | undefined;
+  readonly totalSizeBytes: number | undefined;
+  readonly isEnd: boolean;
+}
+
+// parses the key=value blocks written by ffmpeg -progress, each terminated by a progress=continue|end line
+export class FfmpegProgressParser {
+  private bufferedLine = "";
+  private block: { [key: string]: string } = {};
+
+  public constructor(
+    private readonly onProgress: (event: FfmpegProgressEvent) => void
+  ) {}
+
+  public push(chunk: string): void {
+    const lines = `${this.bufferedLine}${chunk}`.split("\n");
+    // the last line is incomplete unless the chunk ended with a newline
+    this.bufferedLine = lines.pop()!;
+
+    for (const line of lines) {
+      const separatorIndex = line.indexOf("=");
+      if (separatorIndex === -1) {
+        continue;
+      }
+      const key = line.slice(0, separatorIndex).trim();
+      const value = line.slice(separatorIndex + 1).trim();
+      this.block[key] = value;
+
+      if (key === "progress") {
+        this.onProgress(this.parseBlock(this.block));
+        this.block = {};
+      }
+    }
+  }
+
+  private parseBlock(block: { [key: string]: string }): FfmpegProgressEvent {
+    const outTimeMicroseconds = parseNumber(block["out_time_us"]);
+    return {
+      outTimeSeconds:
+        outTimeMicroseconds === undefined
+          ? undefined
+          : outTimeMicroseconds / 1e6,
+      // e.g. "1.23x"
+      speed: parseNumber(block["speed"]?.replace(/x$/, "")),
+      fps: parseNumber(block["fps"]),
+      // e.g. "1234.5kbits/s"
+      bitrateKilobitsPerSecond: parseNumber(
+        block["bitrate"]?.replace(/kbits\/s$/, "")
+      ),
+      totalSizeBytes: parseNumber(block["total_size"]),
+      isEnd: block["progress"] === "end",
+    };
+  }
+}
+
+// ffmpeg writes N/A for values that are not known yet
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const ret = Number.parseFloat(value);
+  return Number.isFinite(ret) ? ret : undefined;
+}
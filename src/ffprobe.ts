@@ -1,33 +1,137 @@
+import { spawn } from "node:child_process";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { runWithConcurrency } from "./scheduler";
+import { FileFingerprint, getFileFingerprint } from "./state";
+
 export interface FfProbeOutput {
   format: FfprobeFormat;
-  streams: (FfprobeAudioStream | FfprobeSubtitleStream)[];
+  chapters: FfprobeChapter[] | undefined;
+  streams: FfprobeAnyStream[];
 }
 
+export type FfprobeAnyStream =
+  | FfprobeVideoStream
+  | FfprobeAudioStream
+  | FfprobeSubtitleStream
+  | FfprobeAttachmentStream
+  | FfprobeDataStream;
+
 export interface FfprobeFormat {
-  duration: number;
+  // ffprobe writes numbers with arbitrary precision as strings
+  duration: string;
+  // e.g. "matroska,webm" or "mov,mp4,m4a,3gp,3g2,mj2"
+  format_name: string | undefined;
+  size: string | undefined;
+  bit_rate: string | undefined;
+  tags: { [key: string]: string } | undefined;
+}
+
+export interface FfprobeChapter {
+  start_time: string;
+  end_time: string;
+  tags: { [key: string]: string } | undefined;
 }
 
 export interface FfprobeStream {
-  codec_type: "audio" | "subtitle";
+  codec_type: "video" | "audio" | "subtitle" | "attachment" | "data";
   index: number;
   codec_name: string;
+  // bits per second, missing for most streams of MKV files
+  bit_rate: string | undefined;
+  duration: string | undefined;
   disposition: FfprobeDispositionMap;
   tags: { [key: string]: string } | undefined;
 }
 
+export interface FfprobeVideoStream extends FfprobeStream {
+  codec_type: "video";
+  profile: string | undefined;
+  level: number | undefined;
+  pix_fmt: string | undefined;
+  width: number;
+  height: number;
+  // e.g. "24000/1001"
+  avg_frame_rate: string | undefined;
+  field_order: string | undefined;
+  color_transfer: string | undefined;
+  color_primaries: string | undefined;
+  color_space: string | undefined;
+}
+
 export interface FfprobeAudioStream extends FfprobeStream {
   codec_type: "audio";
   channel_layout: string;
+  channels: number | undefined;
+  sample_rate: string | undefined;
 }
 
 export interface FfprobeSubtitleStream extends FfprobeStream {
   codec_type: "subtitle";
 }
 
+// MKV attachments, e.g. fonts and cover arts, with their filename and mimetype tags
+export interface FfprobeAttachmentStream extends FfprobeStream {
+  codec_type: "attachment";
+}
+
+// e.g. timecode tracks of MOV files, or the chapter tracks of MP4 files,
+// whose codec_name is "none" if ffprobe does not know their codec
+export interface FfprobeDataStream extends FfprobeStream {
+  codec_type: "data";
+}
+
 export interface FfprobeDispositionMap {
   [key: string]: 0 | 1;
 }
 
+export type FfprobeErrorKind =
+  | "missingFile"
+  // the ffprobe binary could not be started
+  | "notStarted"
+  // ffprobe could not read the file, e.g. because it is corrupt or not a media file
+  | "failed"
+  | "invalidOutput";
+
+export class FfprobeError extends Error {
+  public constructor(
+    public readonly filePath: string,
+    public readonly kind: FfprobeErrorKind,
+    reason: string
+  ) {
+    super(`Could not probe ${filePath}: ${reason}`);
+    // instanceof would not work for subclasses of Error when compiled to ES5
+    Object.setPrototypeOf(this, FfprobeError.prototype);
+    this.name = "FfprobeError";
+  }
+}
+
+interface CacheEntry {
+  // another ffprobe build may report the streams differently
+  readonly binaryPath: string;
+  readonly fingerprint: FileFingerprint;
+  readonly ffprobeArguments: readonly string[];
+  readonly output: FfProbeOutput;
+}
+
+interface CacheFile {
+  readonly entries: { [filePath: string]: CacheEntry };
+}
+
+const ffprobeArguments = [
+  "-hide_banner",
+  "-loglevel",
+  "warning",
+  "-show_format",
+  "-show_streams",
+  "-show_chapters",
+  "-output_format",
+  "json",
+];
+
+// probing mostly waits for the disk to read the headers, so a few files are probed at once
+const maxParallelProbes = 4;
+
 export function convertFfprobeDispositionMapToDispositionListWithoutDefault(
   ffprobeDispositionMap: FfprobeDispositionMap
 ): readonly string[] {
@@ -36,3 +140,166 @@ export function convertFfprobeDispositionMapToDispositionListWithoutDefault(
       disposition !== "default" && ffprobeDispositionMap[disposition] === 1
   );
 }
+
+// runs ffprobe asynchronously, and caches the outputs for the input files,
+// which are probed again only if their size or modification time changes
+export class Ffprobe {
+  private static readonly cacheFileName = ".tvconvert-ffprobe-cache.json";
+
+  public static create(binaryPath: string, cacheFolderPath: string): Ffprobe {
+    const cacheFilePath = join(cacheFolderPath, Ffprobe.cacheFileName);
+    let cacheFile: CacheFile = { entries: {} };
+    if (existsSync(cacheFilePath)) {
+      // the cache is rebuilt if it is corrupt
+      try {
+        cacheFile = JSON.parse(
+          readFileSync(cacheFilePath, { encoding: "utf-8" })
+        );
+      } catch {}
+    }
+    // the cache would grow forever with the files that are deleted after their conversion
+    for (const filePath of Object.keys(cacheFile.entries)) {
+      if (!existsSync(filePath)) {
+        delete cacheFile.entries[filePath];
+      }
+    }
+    return new Ffprobe(binaryPath, cacheFilePath, cacheFile);
+  }
+
+  private constructor(
+    private readonly binaryPath: string,
+    private readonly cacheFilePath: string,
+    private readonly cacheFile: CacheFile
+  ) {}
+
+  public async probe(filePath: string): Promise<FfProbeOutput> {
+    if (!existsSync(filePath)) {
+      throw new FfprobeError(filePath, "missingFile", "it does not exist");
+    }
+
+    const key = resolve(filePath);
+    const fingerprint = getFileFingerprint(filePath);
+    const entry = this.cacheFile.entries[key];
+    if (
+      entry !== undefined &&
+      entry.binaryPath === this.binaryPath &&
+      entry.fingerprint.sizeBytes === fingerprint.sizeBytes &&
+      entry.fingerprint.mtimeMs === fingerprint.mtimeMs &&
+      entry.ffprobeArguments.join("\0") === ffprobeArguments.join("\0")
+    ) {
+      return entry.output;
+    }
+
+    const output = await this.probeUncached(filePath);
+    this.cacheFile.entries[key] = {
+      binaryPath: this.binaryPath,
+      fingerprint,
+      ffprobeArguments,
+      output,
+    };
+    this.saveCache();
+    return output;
+  }
+
+  // for files that are written by the conversions, e.g. to verify them
+  public probeUncached(filePath: string): Promise<FfProbeOutput> {
+    return new Promise((resolve, reject) => {
+      const ffprobe = spawn(this.binaryPath, [...ffprobeArguments, filePath]);
+
+      let stdout = "";
+      ffprobe.stdout.setEncoding("utf8");
+      ffprobe.stdout.on("data", (data) => {
+        stdout += data;
+      });
+      let stderr = "";
+      ffprobe.stderr.setEncoding("utf8");
+      ffprobe.stderr.on("data", (data) => {
+        stderr += data;
+      });
+
+      ffprobe.on("error", (error) => {
+        reject(
+          new FfprobeError(
+            filePath,
+            "notStarted",
+            `${this.binaryPath} cannot be run: ${error.message}`
+          )
+        );
+      });
+
+      ffprobe.on("close", (exitCode, signal) => {
+        if (exitCode !== 0) {
+          reject(
+            new FfprobeError(
+              filePath,
+              "failed",
+              stderr.trim() ||
+                (signal === null
+                  ? `ffprobe exited with code ${exitCode}`
+                  : `ffprobe was killed by ${signal}`)
+            )
+          );
+          return;
+        }
+        try {
+          resolve(parseFfprobeOutput(stdout));
+        } catch (ex) {
+          reject(
+            new FfprobeError(
+              filePath,
+              "invalidOutput",
+              ex instanceof Error ? ex.message : `${ex}`
+            )
+          );
+        }
+      });
+    });
+  }
+
+  // probes the files a few at a time so that the later probe() calls are answered from the cache,
+  // and returns the errors of the files that could not be probed
+  public async probeAll(
+    filePaths: readonly string[]
+  ): Promise<readonly FfprobeError[]> {
+    const errors: FfprobeError[] = [];
+    await runWithConcurrency(filePaths, maxParallelProbes, async (filePath) => {
+      try {
+        await this.probe(filePath);
+      } catch (ex) {
+        if (!(ex instanceof FfprobeError)) {
+          throw ex;
+        }
+        errors.push(ex);
+      }
+    });
+    // in the order of the files, not in the order the probes finished
+    return filePaths.flatMap((filePath) =>
+      errors.filter((error) => error.filePath === filePath)
+    );
+  }
+
+  private saveCache(): void {
+    // write to a temporary file first so that a crash never leaves a half-written cache file behind
+    const temporaryCacheFilePath = `${this.cacheFilePath}.tmp`;
+    writeFileSync(temporaryCacheFilePath, JSON.stringify(this.cacheFile));
+    renameSync(temporaryCacheFilePath, this.cacheFilePath);
+  }
+}
+
+function parseFfprobeOutput(stdout: string): FfProbeOutput {
+  let output: Partial<FfProbeOutput>;
+  try {
+    output = JSON.parse(stdout);
+  } catch {
+    throw new Error("ffprobe did not write valid JSON");
+  }
+  if (
+    typeof output !== "object" ||
+    output === null ||
+    output.format === undefined ||
+    !Array.isArray(output.streams)
+  ) {
+    throw new Error("ffprobe wrote no format or streams");
+  }
+  return output as FfProbeOutput;
+}
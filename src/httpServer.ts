@@ -0,0 +1,337 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { isIP } from "node:net";
+import { isAbsolute } from "node:path";
+import { Config } from "./config";
+import { dashboardHtml } from "./dashboard";
+import { Ffprobe } from "./ffprobe";
+import { IMovie, movieSchema } from "./movie";
+import { resolveOutputProfile } from "./outputProfile";
+import { ConversionQueue, QueueEntrySummary, QueueEvent } from "./queue";
+import { mapSchemaStrings, Schema, validateBySchema } from "./schema";
+import { ConversionState } from "./state";
+
+export interface HttpServerConfig {
+  readonly port: number;
+  // defaults to 127.0.0.1, the API has no authentication so think twice before exposing it
+  readonly host?: string | undefined;
+}
+
+interface StreamSelectionAnswer {
+  readonly audioStreamIndex: number;
+  // null to convert the movie without a subtitle stream
+  readonly subtitleStreamIndex: number | null;
+}
+
+// the first event of a stream is the whole queue
+type ServerSentEvent =
+  | QueueEvent
+  | {
+      readonly type: "queue";
+      readonly movies: readonly QueueEntrySummary[];
+      readonly unidentifiedFilePaths: readonly string[];
+    };
+
+// an IMovie or an answer is a few hundred bytes
+const maxRequestBodyBytes = 1024 * 1024;
+
+// proxies close idle connections, so the event stream sends a comment every now and then
+const eventStreamKeepAliveMs = 30 * 1000;
+
+export function startHttpServer(
+  httpServer: HttpServerConfig,
+  config: Config,
+  state: ConversionState,
+  ffprobe: Ffprobe,
+  queue: ConversionQueue
+): Promise<Server> {
+  const host = httpServer.host ?? "127.0.0.1";
+  const server = createServer((request, response) => {
+    // a website that rebinds its domain name to this address would send its own name as the host
+    if (!isAllowedHost(request.headers.host, host, httpServer.port)) {
+      sendJson(response, 403, { error: "Host is not allowed" });
+      return;
+    }
+    handleRequest(request, response, config, state, ffprobe, queue).catch(
+      (ex) => {
+        sendJson(response, 500, {
+          error: ex instanceof Error ? ex.message : `${ex}`,
+        });
+      }
+    );
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(httpServer.port, host, () => {
+      server.off("error", reject);
+      console.log(
+        `Dashboard is available at http://${host}:${httpServer.port}/`
+      );
+      resolve(server);
+    });
+  });
+}
+
+// the event streams never end by themselves, so their connections are closed as well
+export function stopHttpServer(server: Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+}
+
+export const httpServerConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    port: { type: "integer", minimum: 1, maximum: 65535 },
+    host: {
+      type: "string",
+      description:
+        "defaults to 127.0.0.1, the API has no authentication so think twice before exposing it",
+    },
+  },
+  required: ["port"],
+  additionalProperties: false,
+};
+
+// the configured host, localhost if it is a loopback address, or any IP address, which cannot be rebound,
+// e.g. the address of the machine if the server listens on 0.0.0.0
+function isAllowedHost(
+  hostHeader: string | undefined,
+  host: string,
+  port: number
+): boolean {
+  if (hostHeader === undefined) {
+    return false;
+  }
+  let url: URL;
+  try {
+    url = new URL(`http://${hostHeader}`);
+  } catch {
+    return false;
+  }
+  // the brackets of an IPv6 address are part of the hostname
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  return (
+    (url.port === "" ? 80 : Number(url.port)) === port &&
+    (hostname === host.toLowerCase() ||
+      isIP(hostname) !== 0 ||
+      (hostname === "localhost" && /^(127\.|::1$)/.test(host)))
+  );
+}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  config: Config,
+  state: ConversionState,
+  ffprobe: Ffprobe,
+  queue: ConversionQueue
+): Promise<void> {
+  const { pathname } = new URL(request.url ?? "/", "http://localhost");
+  const method = request.method ?? "GET";
+
+  // a JSON content type cannot be sent cross-origin without a CORS preflight, which is never allowed,
+  // so other websites opened in the browser cannot control the queue
+  if (
+    method === "POST" &&
+    request.headers["content-type"]?.split(";")[0]?.trim() !==
+      "application/json"
+  ) {
+    sendJson(response, 415, { error: "Content-Type must be application/json" });
+    return;
+  }
+
+  if (method === "GET" && pathname === "/") {
+    response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    response.end(dashboardHtml);
+    return;
+  }
+
+  if (method === "GET" && pathname === "/api/queue") {
+    sendJson(response, 200, {
+      movies: queue.getSummaries(),
+      unidentifiedFilePaths: queue.getUnidentifiedFilePaths(),
+    });
+    return;
+  }
+
+  if (method === "GET" && pathname === "/api/events") {
+    streamEvents(request, response, queue);
+    return;
+  }
+
+  if (method === "POST" && pathname === "/api/movies") {
+    try {
+      const movie = await readJsonBody(request);
+      const problems = [...validateBySchema(movie, movieSchema, "movie")];
+      // a relative path would be resolved against the working folder of the daemon, which the client does not know
+      mapSchemaStrings(movie, movieSchema, "path", "movie", (value, path) => {
+        if (!isAbsolute(value)) {
+          problems.push(`${path} must be an absolute path`);
+        }
+        return value;
+      });
+      if (problems.length > 0) {
+        throw new Error(problems.join("\n"));
+      }
+      resolveOutputProfile(
+        config.outputProfiles,
+        config.defaultOutputProfile,
+        (movie as IMovie).outputProfile
+      );
+      sendJson(response, 201, queue.enqueue(movie as IMovie));
+    } catch (ex) {
+      sendJson(response, 400, {
+        error: ex instanceof Error ? ex.message : `${ex}`,
+      });
+    }
+    return;
+  }
+
+  // /api/movies/{id}, /api/movies/{id}/cancel, and /api/movies/{id}/stream-selection
+  const movieRouteMatch = /^\/api\/movies\/(\d+)(\/[\w-]+)?$/.exec(pathname);
+  const id = Number(movieRouteMatch?.[1]);
+  if (movieRouteMatch === null || !queue.hasEntry(id)) {
+    sendJson(response, 404, { error: "Not found" });
+    return;
+  }
+  const action = movieRouteMatch[2];
+
+  if (method === "GET" && action === undefined) {
+    const details = queue.getDetails(id);
+    sendJson(response, 200, {
+      ...details,
+      // the question to answer with /stream-selection
+      selectableStreams:
+        details.status === "pending"
+          ? await queue
+              .getMovie(id)
+              .getSelectableStreams(ffprobe, config.subtitleOcr)
+          : undefined,
+    });
+    return;
+  }
+
+  if (method === "POST" && action === "/cancel") {
+    try {
+      sendJson(response, 200, queue.cancel(id));
+    } catch (ex) {
+      sendJson(response, 409, {
+        error: ex instanceof Error ? ex.message : `${ex}`,
+      });
+    }
+    return;
+  }
+
+  if (method === "POST" && action === "/stream-selection") {
+    try {
+      const { audioStreamIndex, subtitleStreamIndex } = (await readJsonBody(
+        request
+      )) as StreamSelectionAnswer;
+      if (
+        !Number.isInteger(audioStreamIndex) ||
+        !(subtitleStreamIndex === null || Number.isInteger(subtitleStreamIndex))
+      ) {
+        throw new Error(
+          "audioStreamIndex must be an integer, and subtitleStreamIndex an integer or null"
+        );
+      }
+      if (queue.getDetails(id).status !== "pending") {
+        throw new Error(`Movie ${id} is not pending`);
+      }
+      await queue
+        .getMovie(id)
+        .saveStreamSelection(
+          ffprobe,
+          config.subtitleOcr,
+          state,
+          audioStreamIndex,
+          subtitleStreamIndex
+        );
+      sendJson(response, 200, queue.requeue(id));
+    } catch (ex) {
+      sendJson(response, 400, {
+        error: ex instanceof Error ? ex.message : `${ex}`,
+      });
+    }
+    return;
+  }
+
+  sendJson(response, 404, { error: "Not found" });
+}
+
+// the changes of the queue as they happen
+function streamEvents(
+  request: IncomingMessage,
+  response: ServerResponse,
+  queue: ConversionQueue
+): void {
+  response.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const send = (event: ServerSentEvent) => {
+    response.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+  send({
+    type: "queue",
+    movies: queue.getSummaries(),
+    unidentifiedFilePaths: queue.getUnidentifiedFilePaths(),
+  });
+
+  const unsubscribe = queue.subscribe(send);
+  const keepAliveInterval = setInterval(() => {
+    response.write(": keep-alive\n\n");
+  }, eventStreamKeepAliveMs);
+  request.on("close", () => {
+    clearInterval(keepAliveInterval);
+    unsubscribe();
+  });
+}
+
+function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    let bodyBytes = 0;
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      bodyBytes += Buffer.byteLength(chunk);
+      if (bodyBytes > maxRequestBodyBytes) {
+        reject(new Error("Request body is too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new Error("Request body is not valid JSON"));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+function sendJson(
+  response: ServerResponse,
+  statusCode: number,
+  body: unknown
+): void {
+  if (response.headersSent) {
+    response.end();
+    return;
+  }
+  response.writeHead(statusCode, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+  response.end(`${JSON.stringify(body, null, 2)}\n`);
+}
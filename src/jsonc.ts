@@ -0,0 +1,76 @@
+// parses JSON with comments and trailing commas, like the settings files of VS Code
+export function parseJsonc(text: string): unknown {
+  const json = stripJsoncExtensions(text);
+  try {
+    return JSON.parse(json);
+  } catch (ex) {
+    const message = ex instanceof Error ? ex.message : `${ex}`;
+    // the stripped text has the same length and line breaks, so the position points into the original text
+    const positionMatch = /at position (\d+)/.exec(message);
+    if (positionMatch === null) {
+      // e.g. Unexpected token '}', "{"a": }" is not valid JSON, whose snippet can be the whole config
+      throw new Error(message.replace(/, "[^]*" is not valid JSON$/, ""));
+    }
+    const linesBefore = json.slice(0, Number(positionMatch[1])).split("\n");
+    throw new Error(
+      `${message.replace(/ in JSON at position \d+.*$/, "")} at line ${
+        linesBefore.length
+      }, column ${linesBefore[linesBefore.length - 1]!.length + 1}`
+    );
+  }
+}
+
+// replaces the comments and the trailing commas with spaces
+function stripJsoncExtensions(text: string): string {
+  let ret = "";
+  // the index of the last comma in ret that may turn out to be a trailing one
+  let pendingCommaIndex = -1;
+
+  for (let i = 0; i < text.length; ++i) {
+    const character = text[i]!;
+
+    if (character === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      ret += text.slice(i, end + 1);
+      i = end;
+      pendingCommaIndex = -1;
+      continue;
+    }
+
+    if (character === "/" && text[i + 1] === "/") {
+      const end = text.indexOf("\n", i);
+      const commentEnd = end === -1 ? text.length : end;
+      ret += " ".repeat(commentEnd - i);
+      i = commentEnd - 1;
+      continue;
+    }
+
+    if (character === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      const commentEnd = end === -1 ? text.length : end + 2;
+      ret += text.slice(i, commentEnd).replace(/[^\n]/g, " ");
+      i = commentEnd - 1;
+      continue;
+    }
+
+    if (character === "}" || character === "]") {
+      if (pendingCommaIndex !== -1) {
+        ret = `${ret.slice(0, pendingCommaIndex)} ${ret.slice(
+          pendingCommaIndex + 1
+        )}`;
+      }
+    }
+
+    if (character === ",") {
+      pendingCommaIndex = ret.length;
+    } else if (!/\s/.test(character)) {
+      pendingCommaIndex = -1;
+    }
+    ret += character;
+  }
+
+  return ret;
+}
@@ -0,0 +1,150 @@
+import { Schema } from "./schema";
+
+export interface ChapterConfig {
+  // "keep" copies the chapters as they are, "strip" removes them,
+  // "rename" replaces generic titles like "Chapter 01" or "00:05:00.000" with "Chapter N",
+  // "generate" keeps the chapters, or creates one every intervalMinutes if the source has none
+  readonly mode: "keep" | "strip" | "rename" | "generate";
+  readonly intervalMinutes?: number | undefined;
+}
+
+export interface Chapter {
+  readonly startMilliseconds: number;
+  readonly endMilliseconds: number;
+  readonly title: string | undefined;
+}
+
+const chapterModes = ["keep", "strip", "rename", "generate"];
+
+// titles that authoring tools generate, and carry no information beyond the chapter's position
+const genericChapterTitlePatterns = [
+  /^$/,
+  /^(chapter|chapitre|kapitel|capitolo|cap[ií]tulo|fejezet)?\s*\d+$/i,
+  /^\d{1,2}:\d{2}(:\d{2})?([.,]\d+)?$/,
+];
+
+export function isGenericChapterTitle(title: string | undefined): boolean {
+  const trimmedTitle = (title ?? "").trim();
+  return genericChapterTitlePatterns.some((pattern) =>
+    pattern.test(trimmedTitle)
+  );
+}
+
+// returns undefined if the chapters of the input file can be copied without changes
+export function getRewrittenChapters(
+  chapters: readonly Chapter[],
+  containerDurationSeconds: number,
+  chapterConfig: ChapterConfig
+): readonly Chapter[] | undefined {
+  if (
+    chapterConfig.mode === "rename" &&
+    chapters.some((chapter) => isGenericChapterTitle(chapter.title))
+  ) {
+    return chapters.map((chapter, i) => ({
+      ...chapter,
+      title: isGenericChapterTitle(chapter.title)
+        ? `Chapter ${i + 1}`
+        : chapter.title,
+    }));
+  }
+
+  if (
+    chapterConfig.mode === "generate" &&
+    chapters.length === 0 &&
+    chapterConfig.intervalMinutes !== undefined
+  ) {
+    const ret: Chapter[] = [];
+    const durationMilliseconds = containerDurationSeconds * 1000;
+    const intervalMilliseconds = chapterConfig.intervalMinutes * 60 * 1000;
+    for (
+      let startMilliseconds = 0;
+      startMilliseconds < durationMilliseconds;
+      startMilliseconds += intervalMilliseconds
+    ) {
+      ret.push({
+        startMilliseconds,
+        endMilliseconds: Math.min(
+          startMilliseconds + intervalMilliseconds,
+          durationMilliseconds
+        ),
+        title: `Chapter ${ret.length + 1}`,
+      });
+    }
+    return ret;
+  }
+
+  return undefined;
+}
+
+// the FFMETADATA format that ffmpeg reads with -f ffmetadata
+export function formatFfmetadataChapters(chapters: readonly Chapter[]): string {
+  const lines = [";FFMETADATA1"];
+  for (const chapter of chapters) {
+    lines.push(
+      "[CHAPTER]",
+      "TIMEBASE=1/1000",
+      `START=${Math.round(chapter.startMilliseconds)}`,
+      `END=${Math.round(chapter.endMilliseconds)}`
+    );
+    if (chapter.title !== undefined) {
+      lines.push(`title=${escapeFfmetadataValue(chapter.title)}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// the whitelisted tags of the input file, with the title and the year of the movie written over them
+export function getGlobalMetadataArguments(
+  containerTags: { readonly [key: string]: string },
+  metadataTagWhitelist: readonly string[],
+  title: string,
+  year: number
+): readonly string[] {
+  const whitelist = metadataTagWhitelist.map((tag) => tag.toLowerCase());
+  const ret: string[] = [];
+  for (const key of Object.keys(containerTags)) {
+    if (
+      whitelist.includes(key.toLowerCase()) &&
+      !["title", "date"].includes(key.toLowerCase())
+    ) {
+      ret.push("-metadata", `${key}=${containerTags[key]}`);
+    }
+  }
+  ret.push("-metadata", `title=${title}`, "-metadata", `date=${year}`);
+  return ret;
+}
+
+export const chapterConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    mode: { type: "string", enum: chapterModes },
+    intervalMinutes: { type: "number", exclusiveMinimum: 0 },
+  },
+  required: ["mode"],
+  additionalProperties: false,
+};
+
+export const metadataTagWhitelistSchema: Schema = {
+  type: "array",
+  description:
+    "the global tags of the input file that are kept, e.g. comment and description",
+  items: { type: "string" },
+};
+
+export function validateChapterConfig(
+  chapters: ChapterConfig | undefined
+): readonly string[] {
+  if (
+    chapters !== undefined &&
+    (chapters.mode === "generate") !== (chapters.intervalMinutes !== undefined)
+  ) {
+    return [
+      'config.chapters.intervalMinutes must be set for "generate", and unset otherwise',
+    ];
+  }
+  return [];
+}
+
+function escapeFfmetadataValue(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (character) => `\\${character}`);
+}
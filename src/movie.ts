@@ -1,38 +1,296 @@
-import { spawn, spawnSync } from "node:child_process";
-import { existsSync, mkdirSync } from "node:fs";
-import { join } from "node:path";
+import { spawn } from "node:child_process";
+import {
+  AudioProcessingConfig,
+  audioProcessingConfigSchema,
+  getLoudnessMeasurementArguments,
+  getLoudnormFilters,
+  getPreLoudnormFilters,
+  LoudnormMeasurement,
+  measureLoudness,
+  mergeAudioProcessingConfigs,
+} from "./audioProcessing";
+import {
+  existsSync,
+  mkdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import {
+  getHdrType,
+  getTranscodedVideoSize,
+  getVideoIncompatibilities,
+  getVideoTranscodeArguments,
+  TargetDevice,
+} from "./device";
 import {
   convertFfprobeDispositionMapToDispositionListWithoutDefault,
-  FfProbeOutput,
+  Ffprobe,
+  FfprobeVideoStream,
 } from "./ffprobe";
+import {
+  ArtworkResult,
+  CoverArt,
+  extractCoverArt,
+  extractFrame,
+  formatEpisodeNfo,
+  formatMovieNfo,
+  getAttachedPictureFileExtension,
+  getCoverArtFileExtension,
+  NfoConfig,
+  NfoStreamDetails,
+} from "./nfo";
+import {
+  getChannelCount,
+  getChannelLayoutName,
+  NamedOutputProfile,
+  OutputProfile,
+} from "./outputProfile";
+import {
+  detectSubtitleCharacterEncoding,
+  discoverSidecarSubtitles,
+  ExternalSubtitle,
+  getSubtitleFileCodecName,
+  externalSubtitleSchema,
+  getExternalSubtitleProblem,
+} from "./externalSubtitles";
+import {
+  estimatedSrtBytes,
+  getAudioBitrate,
+  getStreamSizeBytes,
+  OutputSizeEstimate,
+} from "./diskSpace";
+import { FfmpegProgressParser } from "./ffmpegProgress";
+import {
+  Chapter,
+  ChapterConfig,
+  formatFfmetadataChapters,
+  getGlobalMetadataArguments,
+  getRewrittenChapters,
+} from "./metadata";
+import { FileNaming } from "./naming";
+import { runSubtitleOcr, SubtitleOcrConfig } from "./ocr";
+import { ProgressJob, ProgressView } from "./progress";
+import { Schema } from "./schema";
+import {
+  ConversionFallback,
+  describeFallback,
+  FallbackOutputStream,
+  getFallbackForFailure,
+  hasFallback,
+  isStreamDropped,
+  muxingQueueSize,
+} from "./retry";
+import {
+  formatCommandLine,
+  getStderrExcerpt,
+  MovieReport,
+  MovieReportStatus,
+  ReportedFile,
+  ReportedStream,
+} from "./report";
+import {
+  EpisodeNumber,
+  formatEpisodeNumber,
+  isValidEpisodeNumber,
+} from "./series";
+import { stripSrtFileStyling } from "./srt";
+import {
+  AlignmentReference,
+  SubtitleSyncConfig,
+  syncSubtitleFile,
+} from "./subtitleSync";
+import {
+  ConversionState,
+  getFileFingerprint,
+  isOutputFileUnchanged,
+  MovieState,
+  SelectedStreamState,
+} from "./state";
+import {
+  decideAudioStreamRetention,
+  decideSubtitleStreamRetention,
+  formatRetentionTable,
+  getRetentionTableRow,
+  RetentionDecision,
+  StreamRetentionConfig,
+} from "./streamRetention";
+import {
+  mergeStreamSelectionConfigs,
+  selectStreamByRules,
+  StreamSelectionConfig,
+  streamSelectionConfigSchema,
+  StreamSelectionRule,
+} from "./streamSelection";
 import { question } from "./utils";
+import {
+  ExpectedOutput,
+  getCodecNameForEncoder,
+  verifyOutput,
+} from "./verification";
 
-interface Stream {
+export interface Stream {
   readonly index: number;
   readonly codecName: string;
   readonly language: string | undefined;
   readonly title: string | undefined;
   readonly dispositionsWithoutDefault: readonly string[];
+  // undefined if the input file tells neither the size nor the bitrate of the stream
+  readonly sizeBytes: number | undefined;
+}
+
+export interface VideoStream extends Stream {
+  readonly profile: string | undefined;
+  readonly level: number | undefined;
+  readonly pixelFormat: string | undefined;
+  readonly width: number;
+  readonly height: number;
+  readonly colorTransfer: string | undefined;
 }
 
-interface AudioStream extends Stream {
+export interface AudioStream extends Stream {
   readonly channelLayout: string;
 }
 
-interface SubtitleStream extends Stream {}
+export interface SubtitleStream extends Stream {
+  // set if the stream comes from a separate subtitle file instead of the input file
+  readonly externalFile?: ExternalSubtitleFile | undefined;
+}
+
+interface ExternalSubtitleFile {
+  // the index of the subtitle file among the ffmpeg inputs
+  readonly inputIndex: number;
+  readonly path: string;
+  // undefined if the subtitle file is UTF-8 encoded
+  readonly characterEncoding: string | undefined;
+  readonly sync: SubtitleSyncConfig | undefined;
+}
 
 interface ContainerInfo {
   readonly containerDurationSeconds: number;
+  readonly containerSizeBytes: number;
+  readonly videoStreams: readonly VideoStream[];
   readonly audioStreams: readonly AudioStream[];
   readonly subtitleStreams: readonly SubtitleStream[];
+  readonly coverArt: CoverArt | undefined;
+  readonly chapters: readonly Chapter[];
+  readonly containerTags: { readonly [key: string]: string };
 }
 
-interface ConversionInfo {
+export interface ConversionInfo {
   readonly containerDurationSeconds: number;
+  readonly containerSizeBytes: number;
+  readonly videoStreams: readonly VideoStream[];
   readonly audioStreams: readonly AudioStream[];
   readonly selectedAudioStream: AudioStream;
   readonly subtitleStreams: readonly SubtitleStream[];
   readonly selectedSubtitleStream: SubtitleStream | null;
+  readonly coverArt: CoverArt | undefined;
+  readonly chapters: readonly Chapter[];
+  readonly containerTags: { readonly [key: string]: string };
+}
+
+// the streams to choose from when the stream selection rules do not decide
+export interface SelectableStreams {
+  readonly audioStreams: readonly AudioStream[];
+  readonly subtitleStreams: readonly SubtitleStream[];
+}
+
+// text-based subtitle codecs that ffmpeg can convert to SRT
+const textSubtitleCodecNames = [
+  "subrip",
+  "ass",
+  "ssa",
+  "mov_text",
+  "webvtt",
+  "text",
+];
+
+// image-based subtitle codecs that need OCR to be converted to SRT, and the file extension to extract them to
+const imageSubtitleCodecFileExtensions: { [codecName: string]: string } = {
+  hdmv_pgs_subtitle: "sup",
+  dvd_subtitle: "mks",
+};
+
+function isImageSubtitleCodec(codecName: string): boolean {
+  return imageSubtitleCodecFileExtensions[codecName] !== undefined;
+}
+
+// a copied stream would keep the bytes of a legacy encoding, -sub_charenc only applies when the subtitles are decoded
+function isSubtitleReencoded(
+  subtitleStream: SubtitleStream,
+  fallbacks: readonly ConversionFallback[]
+): boolean {
+  return (
+    (subtitleStream.externalFile?.characterEncoding !== undefined &&
+      subtitleStream.externalFile.sync === undefined) ||
+    (hasFallback("reencodeSubtitles", fallbacks) &&
+      textSubtitleCodecNames.includes(subtitleStream.codecName))
+  );
+}
+
+// aborting with the name of a received signal as the reason forwards that signal to ffmpeg, other aborts send SIGTERM
+function getForwardedSignal(abortSignal: AbortSignal): NodeJS.Signals {
+  return abortSignal.reason === "SIGINT" ? "SIGINT" : "SIGTERM";
+}
+
+// outputs are written to hidden files that are renamed when they are complete, so media servers never pick up half-written ones,
+// the extension is kept for ffmpeg to detect the output format
+function getPartialFilePath(filePath: string): string {
+  const extension = extname(filePath);
+  return join(
+    dirname(filePath),
+    `.${basename(filePath, extension)}.partial${extension}`
+  );
+}
+
+function getRetainedStreams(
+  audioRetentionDecisions: readonly RetentionDecision<AudioStream>[],
+  subtitleRetentionDecisions: readonly RetentionDecision<SubtitleStream>[]
+): RetainedStreams {
+  return {
+    originalAudioStreams: audioRetentionDecisions
+      .filter((decision) => decision.kept)
+      .map((decision) => decision.stream),
+    subtitleStreams: subtitleRetentionDecisions
+      .filter((decision) => decision.kept)
+      .map((decision) => decision.stream),
+  };
+}
+
+// whether the recorded outputs of a previous run are the expected ones, and nobody touched them since
+function hasIntactOutputFiles(
+  movieState: MovieState,
+  outputFilePaths: readonly string[]
+): boolean {
+  return (
+    movieState.outputFiles !== undefined &&
+    movieState.outputFiles.length === outputFilePaths.length &&
+    movieState.outputFiles.every(
+      (outputFile, i) =>
+        outputFile.path === outputFilePaths[i] &&
+        isOutputFileUnchanged(outputFile)
+    )
+  );
+}
+
+function isSameStream(
+  stream: AudioStream | SubtitleStream,
+  selectedStream: SelectedStreamState
+): boolean {
+  return (
+    stream.index === selectedStream.index &&
+    stream.codecName === selectedStream.codecName &&
+    stream.language === selectedStream.language
+  );
+}
+
+// the streams that are mapped into the MKV output besides the video streams and the transcoded audio stream
+interface RetainedStreams {
+  readonly originalAudioStreams: readonly AudioStream[];
+  readonly subtitleStreams: readonly SubtitleStream[];
 }
 
 interface ConversionResult {
@@ -43,30 +301,114 @@ interface ConversionResult {
 export interface IMovie {
   readonly title: string;
   readonly year: number;
+  // e.g. "Director's Cut", to tell apart the cuts of a movie
+  readonly edition?: string | undefined;
   readonly inputFilePath: string;
+  readonly streamSelection?: StreamSelectionConfig | undefined;
+  readonly outputProfile?: string | undefined;
+  readonly externalSubtitles?: readonly ExternalSubtitle[] | undefined;
+  // overrides the audio processing of the output profile
+  readonly audioProcessing?: AudioProcessingConfig | undefined;
+  // set for the episodes of a series, whose title and year are the ones of the show
+  readonly episode?: EpisodeNumber | undefined;
 }
 
+export const movieSchema: Schema = {
+  type: "object",
+  properties: {
+    title: { type: "string", minLength: 1 },
+    year: { type: "integer", minimum: 1888 },
+    edition: {
+      type: "string",
+      description: "e.g. Director's Cut, to tell apart the cuts of a movie",
+      minLength: 1,
+    },
+    inputFilePath: { type: "string", format: "path" },
+    streamSelection: streamSelectionConfigSchema,
+    outputProfile: { type: "string" },
+    externalSubtitles: { type: "array", items: externalSubtitleSchema },
+    audioProcessing: audioProcessingConfigSchema,
+    episode: {
+      type: "object",
+      description: "season 0 holds the specials",
+      properties: {
+        season: { type: "integer", minimum: 0 },
+        episode: { type: "integer", minimum: 1 },
+      },
+      required: ["season", "episode"],
+      additionalProperties: false,
+    },
+  },
+  required: ["title", "year", "inputFilePath"],
+  additionalProperties: false,
+};
+
 export class Movie implements IMovie {
   private conversionInfo: ConversionInfo | undefined;
   private conversionResult: ConversionResult | undefined;
-
-  public static fromIMovie(movie: IMovie): Movie {
-    return new Movie(movie.title, movie.year, movie.inputFilePath);
+  private conversionReport: MovieReport | undefined;
+
+  // the naming only matters for the movies that are converted
+  public static fromIMovie(
+    movie: IMovie,
+    naming: FileNaming = FileNaming.create(undefined)
+  ): Movie {
+    return new Movie(
+      movie.title,
+      movie.year,
+      movie.edition,
+      movie.inputFilePath,
+      movie.streamSelection,
+      movie.outputProfile,
+      movie.externalSubtitles,
+      movie.audioProcessing,
+      movie.episode,
+      naming
+    );
   }
 
   private constructor(
     public readonly title: string,
     public readonly year: number,
-    public readonly inputFilePath: string
+    public readonly edition: string | undefined,
+    public readonly inputFilePath: string,
+    public readonly streamSelection: StreamSelectionConfig | undefined,
+    public readonly outputProfile: string | undefined,
+    public readonly externalSubtitles: readonly ExternalSubtitle[] | undefined,
+    public readonly audioProcessing: AudioProcessingConfig | undefined,
+    public readonly episode: EpisodeNumber | undefined,
+    private readonly naming: FileNaming
   ) {}
 
   public getFullyQualifiedName(fileNameSafe: boolean): string {
-    let title = this.title;
-    if (fileNameSafe) {
-      title = title.replace(/[^a-zA-Z0-9-_ ]/g, "");
+    let fullyQualifiedName = `${this.title} (${this.year})`;
+    if (this.edition !== undefined) {
+      fullyQualifiedName = `${fullyQualifiedName} [${this.edition}]`;
+    }
+    if (this.episode !== undefined) {
+      fullyQualifiedName = `${fullyQualifiedName} ${formatEpisodeNumber(
+        this.episode
+      )}`;
     }
-    const fullyQualifiedName = `${title} (${this.year})`;
-    return fullyQualifiedName;
+    return fileNameSafe
+      ? this.naming.sanitize(fullyQualifiedName)
+      : fullyQualifiedName;
+  }
+
+  // false if the title would disappear from the output names, e.g. a title with only question marks
+  public hasValidOutputName(): boolean {
+    return [
+      this.naming.sanitize(this.title),
+      ...this.naming.getFolderNames(this),
+      this.naming.getFileName(this),
+    ].every((name) => name.length > 0);
+  }
+
+  // the paths of the MKV and SRT outputs, once the conversion info is collected
+  public getExpectedOutputFilePaths(
+    outputFolderPath: string
+  ): readonly string[] {
+    return this.getOutputFilePaths(outputFolderPath, this.getConversionInfo());
   }
 
   public hasValidInputFilePath(): boolean {
@@ -88,32 +430,219 @@ export class Movie implements IMovie {
     );
   }
 
-  public async collectConversionInfo(ffprobeBinaryPath: string): Promise<void> {
+  public hasValidEpisode(): boolean {
+    return this.episode === undefined || isValidEpisodeNumber(this.episode);
+  }
+
+  public hasValidExternalSubtitles(): boolean {
+    return (
+      this.externalSubtitles === undefined ||
+      (Array.isArray(this.externalSubtitles) &&
+        this.externalSubtitles.every(
+          (externalSubtitle) =>
+            getExternalSubtitleProblem(externalSubtitle) === undefined
+        ))
+    );
+  }
+
+  public async collectConversionInfo(
+    ffprobe: Ffprobe,
+    globalStreamSelection: StreamSelectionConfig | undefined,
+    subtitleOcr: SubtitleOcrConfig | undefined,
+    state: ConversionState,
+    interactive: boolean
+  ): Promise<void> {
     console.log(`Collecting info for: ${this.getFullyQualifiedName(false)}…`);
 
-    const { containerDurationSeconds, audioStreams, subtitleStreams } =
-      this.getInputFileMediaInfo(this.inputFilePath, ffprobeBinaryPath);
+    const {
+      containerDurationSeconds,
+      containerSizeBytes,
+      videoStreams,
+      audioStreams,
+      subtitleStreams,
+      coverArt,
+      chapters,
+      containerTags,
+    } = await this.getInputFileMediaInfo(this.inputFilePath, ffprobe);
+
+    const streamSelection = mergeStreamSelectionConfigs(
+      globalStreamSelection,
+      this.streamSelection
+    );
+
+    const externalSubtitleStreams = this.getExternalSubtitleStreams();
+
+    const convertibleSubtitleStreams = this.getConvertibleSubtitleStreams(
+      subtitleStreams,
+      subtitleOcr
+    );
 
-    const selectedAudioStream = await this.selectAudioStream(audioStreams);
-    const selectedSubtitleStream = await this.selectSubtitleStream(
-      subtitleStreams
+    // reuse the stream selection of a previous run on the same input file
+    const movieState = state.getMovieState(this.inputFilePath);
+    const previouslySelectedAudioStream = audioStreams.find(
+      (s) => s.index === movieState?.selectedAudioStreamIndex
     );
+    const previouslySelectedSubtitleStream =
+      movieState?.selectedSubtitleStreamIndex === null
+        ? null
+        : convertibleSubtitleStreams.find(
+            (s) => s.index === movieState?.selectedSubtitleStreamIndex
+          );
+    const hasPreviousStreamSelection =
+      previouslySelectedAudioStream !== undefined &&
+      previouslySelectedSubtitleStream !== undefined;
+    if (hasPreviousStreamSelection) {
+      console.log("Reusing stream selection from previous run");
+    }
+
+    // the other episodes of a season reuse the stream selection of the first one, so it is decided once per season
+    const seasonStreamSelection = hasPreviousStreamSelection
+      ? undefined
+      : this.getSeasonStreamSelection(
+          state,
+          audioStreams,
+          convertibleSubtitleStreams
+        );
+    if (seasonStreamSelection !== undefined) {
+      console.log(`Reusing stream selection of ${this.getSeasonName()}`);
+    }
+
+    const selectedAudioStream =
+      seasonStreamSelection?.audioStream ??
+      previouslySelectedAudioStream ??
+      (await this.selectAudioStream(
+        audioStreams,
+        streamSelection.audio ?? [],
+        interactive
+      ));
+    const selectedEmbeddedSubtitleStream =
+      seasonStreamSelection !== undefined
+        ? seasonStreamSelection.subtitleStream
+        : previouslySelectedSubtitleStream !== undefined
+        ? previouslySelectedSubtitleStream
+        : await this.selectSubtitleStream(
+            convertibleSubtitleStreams,
+            streamSelection.subtitle ?? [],
+            externalSubtitleStreams.length > 0,
+            interactive
+          );
+
+    if (
+      selectedAudioStream !== previouslySelectedAudioStream ||
+      selectedEmbeddedSubtitleStream !== previouslySelectedSubtitleStream
+    ) {
+      state.setMovieState(this.inputFilePath, {
+        inputFileFingerprint: getFileFingerprint(this.inputFilePath),
+        selectedAudioStreamIndex: selectedAudioStream.index,
+        selectedSubtitleStreamIndex:
+          selectedEmbeddedSubtitleStream?.index ?? null,
+      });
+    }
+    if (
+      this.episode !== undefined &&
+      state.getSeasonState(this.getSeasonName()) === undefined
+    ) {
+      this.saveSeasonStreamSelection(
+        state,
+        selectedAudioStream,
+        selectedEmbeddedSubtitleStream
+      );
+    }
+
+    // fall back to the external subtitles if no embedded subtitle stream is selected
+    const selectedSubtitleStream =
+      selectedEmbeddedSubtitleStream ??
+      this.selectExternalSubtitleStream(
+        externalSubtitleStreams,
+        streamSelection.subtitle ?? []
+      );
 
     this.conversionInfo = {
       containerDurationSeconds,
+      containerSizeBytes,
+      videoStreams,
       audioStreams,
       selectedAudioStream,
-      subtitleStreams,
+      subtitleStreams: [...subtitleStreams, ...externalSubtitleStreams],
       selectedSubtitleStream,
+      coverArt,
+      chapters,
+      containerTags,
+    };
+  }
+
+  public async getSelectableStreams(
+    ffprobe: Ffprobe,
+    subtitleOcr: SubtitleOcrConfig | undefined
+  ): Promise<SelectableStreams> {
+    const { audioStreams, subtitleStreams } = await this.getInputFileMediaInfo(
+      this.inputFilePath,
+      ffprobe
+    );
+    return {
+      audioStreams,
+      subtitleStreams: this.getConvertibleSubtitleStreams(
+        subtitleStreams,
+        subtitleOcr
+      ),
     };
   }
 
+  // the selection is stored in the state, where collectConversionInfo() reuses it
+  public async saveStreamSelection(
+    ffprobe: Ffprobe,
+    subtitleOcr: SubtitleOcrConfig | undefined,
+    state: ConversionState,
+    audioStreamIndex: number,
+    subtitleStreamIndex: number | null
+  ): Promise<void> {
+    const { audioStreams, subtitleStreams } = await this.getSelectableStreams(
+      ffprobe,
+      subtitleOcr
+    );
+    if (!audioStreams.some((s) => s.index === audioStreamIndex)) {
+      throw new Error(`Audio stream ${audioStreamIndex} does not exist`);
+    }
+    if (
+      subtitleStreamIndex !== null &&
+      !subtitleStreams.some((s) => s.index === subtitleStreamIndex)
+    ) {
+      throw new Error(
+        `Subtitle stream ${subtitleStreamIndex} does not exist or cannot be converted to SRT`
+      );
+    }
+    state.setMovieState(this.inputFilePath, {
+      inputFileFingerprint: getFileFingerprint(this.inputFilePath),
+      selectedAudioStreamIndex: audioStreamIndex,
+      selectedSubtitleStreamIndex: subtitleStreamIndex,
+    });
+    // the answer applies to the episodes of the season that are collected afterwards
+    if (this.episode !== undefined) {
+      this.saveSeasonStreamSelection(
+        state,
+        audioStreams.find((s) => s.index === audioStreamIndex)!,
+        subtitleStreams.find((s) => s.index === subtitleStreamIndex) ?? null
+      );
+    }
+  }
+
   public async convert(
     outputFolderPath: string,
     ffmpegBinaryPath: string,
+    ffprobe: Ffprobe,
+    outputProfile: NamedOutputProfile,
+    targetDevice: TargetDevice | undefined,
+    streamRetention: StreamRetentionConfig | undefined,
+    subtitleOcr: SubtitleOcrConfig | undefined,
+    nfo: NfoConfig | undefined,
+    chapterConfig: ChapterConfig | undefined,
+    metadataTagWhitelist: readonly string[] | undefined,
+    stallTimeoutMinutes: number | undefined,
+    maxConversionAttempts: number,
     dryRun: boolean,
-    currentFileIndex: number,
-    allFilesCount: number
+    state: ConversionState,
+    progressView: ProgressView,
+    abortSignal: AbortSignal | undefined
   ): Promise<void> {
     if (this.conversionInfo === undefined) {
       throw new Error(
@@ -121,6 +650,18 @@ export class Movie implements IMovie {
       );
     }
 
+    const progressJob = progressView.startJob(
+      this,
+      this.getFullyQualifiedName(false),
+      this.conversionInfo.containerDurationSeconds
+    );
+    const startTimeMs = Date.now();
+
+    const outputFilePaths = this.getOutputFilePaths(
+      outputFolderPath,
+      this.conversionInfo
+    );
+
     const globalArguments = [
       "-hide_banner",
       "-loglevel",
@@ -132,20 +673,221 @@ export class Movie implements IMovie {
     ];
 
     const inputFileArguments = ["-i", this.inputFilePath];
+    for (const subtitleStream of this.conversionInfo.subtitleStreams) {
+      if (subtitleStream.externalFile === undefined) {
+        continue;
+      }
+      // synced subtitles are written as UTF-8 before the conversion
+      if (subtitleStream.externalFile.sync !== undefined) {
+        inputFileArguments.push(
+          "-i",
+          this.getSyncedSubtitleFilePath(outputFolderPath, subtitleStream)
+        );
+        continue;
+      }
+      // let ffmpeg convert legacy encoded subtitles to UTF-8, which needs them to be re-encoded in the MKV
+      if (subtitleStream.externalFile.characterEncoding !== undefined) {
+        inputFileArguments.push(
+          "-sub_charenc",
+          subtitleStream.externalFile.characterEncoding
+        );
+      }
+      inputFileArguments.push("-i", subtitleStream.externalFile.path);
+    }
 
-    const outputsArguments = [
-      this.getMkvOutputArguments(outputFolderPath, this.conversionInfo),
-      this.getSrtOutputArguments(outputFolderPath, this.conversionInfo),
-    ];
+    // chapters are stripped unless configured otherwise, and rewritten chapters are read from a separate input
+    const rewrittenChapters =
+      chapterConfig === undefined || chapterConfig.mode === "strip"
+        ? undefined
+        : getRewrittenChapters(
+            this.conversionInfo.chapters,
+            this.conversionInfo.containerDurationSeconds,
+            chapterConfig
+          );
+    let chaptersInputIndex =
+      chapterConfig === undefined || chapterConfig.mode === "strip" ? -1 : 0;
+    if (rewrittenChapters !== undefined) {
+      chaptersInputIndex =
+        1 +
+        this.conversionInfo.subtitleStreams.filter(
+          (s) => s.externalFile !== undefined
+        ).length;
+      inputFileArguments.push(
+        "-f",
+        "ffmetadata",
+        "-i",
+        this.getChaptersFilePath(outputFolderPath)
+      );
+    }
+
+    const audioRetentionDecisions = decideAudioStreamRetention(
+      this.conversionInfo.audioStreams,
+      this.conversionInfo.selectedAudioStream,
+      outputProfile.profile.keepOriginalAudioStreams,
+      streamRetention
+    );
+    const subtitleRetentionDecisions = decideSubtitleStreamRetention(
+      this.conversionInfo.subtitleStreams,
+      this.conversionInfo.selectedSubtitleStream,
+      streamRetention
+    );
+    const retainedStreams = getRetainedStreams(
+      audioRetentionDecisions,
+      subtitleRetentionDecisions
+    );
+
+    let audioFilters: readonly string[];
+    try {
+      audioFilters = await this.getAudioFilters(
+        ffmpegBinaryPath,
+        outputProfile.profile,
+        dryRun,
+        state,
+        progressView,
+        abortSignal
+      );
+    } catch (ex) {
+      const error = ex instanceof Error ? ex.message : `${ex}`;
+      this.conversionResult = { successful: false, stderr: error };
+      this.conversionReport = this.createConversionReport(
+        "failed",
+        ffmpegBinaryPath,
+        [],
+        outputFilePaths,
+        [],
+        (Date.now() - startTimeMs) / 1000,
+        error
+      );
+      progressJob.finish("failed");
+      return;
+    }
 
-    const ffmpegArguments = [
+    const conversionInfo = this.conversionInfo;
+    const getFfmpegArguments = (
+      fallbacks: readonly ConversionFallback[]
+    ): readonly string[] => [
       ...globalArguments,
+      // the input options apply to the input file of the movie, not to the external subtitle and chapter files
+      ...(hasFallback("generatePts", fallbacks) ? ["-fflags", "+genpts"] : []),
       ...inputFileArguments,
-      ...outputsArguments.flat(),
+      ...this.getMkvOutputArguments(
+        outputFolderPath,
+        conversionInfo,
+        this.getRetainedStreamsWithFallbacks(retainedStreams, fallbacks),
+        outputProfile.profile,
+        audioFilters,
+        targetDevice,
+        chaptersInputIndex,
+        metadataTagWhitelist ?? [],
+        fallbacks
+      ),
+      ...this.getSrtOutputArguments(outputFolderPath, conversionInfo),
     ];
 
+    const movieState = state.getMovieState(this.inputFilePath);
+    let fallbacks = movieState?.appliedFallbacks ?? [];
+    let ffmpegArguments = getFfmpegArguments(fallbacks);
+
+    // skip movies that were successfully converted by a previous run with the same arguments, and whose outputs are still intact
+    if (
+      movieState?.conversionResult?.successful === true &&
+      movieState.ffmpegArguments?.join("\0") === ffmpegArguments.join("\0") &&
+      hasIntactOutputFiles(movieState, outputFilePaths)
+    ) {
+      // the movie may have been converted before NFO generation was enabled
+      if (
+        nfo !== undefined &&
+        !existsSync(
+          this.getNfoFilePath(
+            outputFolderPath,
+            this.conversionInfo.selectedSubtitleStream
+          )
+        )
+      ) {
+        const nfoResult = await this.writeNfoSidecars(
+          outputFolderPath,
+          ffmpegBinaryPath,
+          this.conversionInfo,
+          this.getRetainedStreamsWithFallbacks(retainedStreams, fallbacks),
+          outputProfile.profile,
+          targetDevice,
+          nfo
+        );
+        if (!nfoResult.successful) {
+          progressView.log(
+            `${this.getFullyQualifiedName(false)}: ${nfoResult.stderr}`
+          );
+        }
+      }
+      progressJob.finish("already converted, skipping");
+      this.conversionResult = movieState.conversionResult;
+      this.conversionReport = this.createConversionReport(
+        "skipped",
+        ffmpegBinaryPath,
+        ffmpegArguments,
+        outputFilePaths,
+        fallbacks,
+        0,
+        movieState.conversionResult.stderr
+      );
+      return;
+    }
+
+    if (targetDevice !== undefined) {
+      for (const videoStream of this.conversionInfo.videoStreams) {
+        const incompatibilities = getVideoIncompatibilities(
+          videoStream,
+          targetDevice.capabilities
+        );
+        if (incompatibilities.length > 0) {
+          progressView.log(
+            `${this.getFullyQualifiedName(false)}: transcoding video stream ${
+              videoStream.index
+            } for ${targetDevice.name}: ${incompatibilities.join(", ")}`
+          );
+        }
+      }
+    }
+
     if (dryRun) {
-      console.log(`${ffmpegBinaryPath} ${ffmpegArguments.join(" ")}`);
+      progressView.log(
+        `${this.getFullyQualifiedName(false)}: output profile "${
+          outputProfile.name
+        }"`
+      );
+      progressView.log(
+        formatRetentionTable([
+          [
+            "audio",
+            `${this.conversionInfo.selectedAudioStream.index}`,
+            this.conversionInfo.selectedAudioStream.language ?? "???",
+            this.getOutputAudioCodecName(
+              this.conversionInfo.selectedAudioStream,
+              outputProfile.profile
+            ),
+            "",
+            "yes",
+            "selected audio stream, output with the output profile",
+          ],
+          ...audioRetentionDecisions.map((decision) =>
+            getRetentionTableRow("audio", decision)
+          ),
+          ...subtitleRetentionDecisions.map((decision) =>
+            getRetentionTableRow("subtitle", decision)
+          ),
+        ])
+      );
+      progressView.log(`${ffmpegBinaryPath} ${ffmpegArguments.join(" ")}`);
+      progressJob.finish("dry run");
+      this.conversionReport = this.createConversionReport(
+        "dry run",
+        ffmpegBinaryPath,
+        ffmpegArguments,
+        outputFilePaths,
+        fallbacks,
+        0,
+        ""
+      );
       return;
     }
 
@@ -161,32 +903,571 @@ export class Movie implements IMovie {
 
     const { containerDurationSeconds } = this.conversionInfo;
 
+    if (rewrittenChapters !== undefined) {
+      writeFileSync(
+        this.getChaptersFilePath(outputFolderPath),
+        formatFfmetadataChapters(rewrittenChapters)
+      );
+    }
+
+    const syncedSubtitleFilePaths: string[] = [];
+    let syncError: string | undefined;
+    for (const subtitleStream of this.conversionInfo.subtitleStreams) {
+      if (subtitleStream.externalFile?.sync === undefined) {
+        continue;
+      }
+      const syncedSubtitleFilePath = this.getSyncedSubtitleFilePath(
+        outputFolderPath,
+        subtitleStream
+      );
+      syncedSubtitleFilePaths.push(syncedSubtitleFilePath);
+      try {
+        const syncLog = await syncSubtitleFile(
+          subtitleStream.externalFile.path,
+          subtitleStream.externalFile.characterEncoding,
+          syncedSubtitleFilePath,
+          subtitleStream.externalFile.sync,
+          this.getAlignmentReference(
+            ffmpegBinaryPath,
+            subtitleStream.externalFile.sync,
+            this.conversionInfo,
+            abortSignal
+          )
+        );
+        progressView.log(
+          `${this.getFullyQualifiedName(false)}: synced ${
+            subtitleStream.externalFile.path
+          }: ${syncLog}`
+        );
+      } catch (ex) {
+        syncError = ex instanceof Error ? ex.message : `${ex}`;
+        break;
+      }
+    }
+
+    let successful = false;
+    let stderr = syncError ?? "";
+    // known failures are retried with one more fallback each time, until there are no more attempts or fallbacks left
+    for (let attempt = 1; syncError === undefined; ++attempt) {
+      ({ successful, stderr } = await this.runFfmpeg(
+        ffmpegBinaryPath,
+        ffmpegArguments,
+        containerDurationSeconds,
+        progressJob,
+        stallTimeoutMinutes,
+        abortSignal
+      ));
+      if (
+        successful ||
+        attempt >= maxConversionAttempts ||
+        abortSignal?.aborted === true
+      ) {
+        break;
+      }
+      const fallback = getFallbackForFailure(
+        stderr,
+        this.getFallbackOutputStreams(
+          this.conversionInfo,
+          this.getRetainedStreamsWithFallbacks(retainedStreams, fallbacks)
+        ),
+        fallbacks
+      );
+      if (fallback === undefined) {
+        break;
+      }
+      progressView.log(
+        `${this.getFullyQualifiedName(
+          false
+        )}: attempt ${attempt} failed, retrying with ${describeFallback(
+          fallback
+        )}`
+      );
+      fallbacks = [...fallbacks, fallback];
+      ffmpegArguments = getFfmpegArguments(fallbacks);
+    }
+
+    for (const syncedSubtitleFilePath of syncedSubtitleFilePaths) {
+      rmSync(syncedSubtitleFilePath, { force: true });
+    }
+    rmSync(this.getChaptersFilePath(outputFolderPath), { force: true });
+
+    if (successful && this.conversionInfo.selectedSubtitleStream !== null) {
+      ({ successful, stderr } = await this.postProcessSrtOutput(
+        outputFolderPath,
+        this.conversionInfo.selectedSubtitleStream,
+        subtitleOcr,
+        stderr,
+        abortSignal
+      ));
+    }
+
+    // a zero exit code does not guarantee a complete output, e.g. when the disk fills up
+    if (successful) {
+      ({ successful, stderr } = await this.verifyOutputFiles(
+        ffprobe,
+        this.getExpectedOutput(
+          outputFolderPath,
+          this.conversionInfo,
+          this.getRetainedStreamsWithFallbacks(retainedStreams, fallbacks),
+          outputProfile.profile,
+          targetDevice,
+          fallbacks
+        ),
+        stderr
+      ));
+    }
+
+    if (successful) {
+      try {
+        for (const outputFilePath of outputFilePaths) {
+          renameSync(getPartialFilePath(outputFilePath), outputFilePath);
+        }
+      } catch (ex) {
+        // e.g. EACCES, the outputs that were renamed already are left in place
+        successful = false;
+        stderr = `${stderr}Could not rename the outputs: ${
+          ex instanceof Error ? ex.message : ex
+        }\n`;
+      }
+    }
+    // a failed or aborted conversion leaves incomplete output files behind
+    this.removePartialOutputFiles(outputFolderPath, this.conversionInfo);
+
+    if (successful && nfo !== undefined) {
+      const nfoResult = await this.writeNfoSidecars(
+        outputFolderPath,
+        ffmpegBinaryPath,
+        this.conversionInfo,
+        this.getRetainedStreamsWithFallbacks(retainedStreams, fallbacks),
+        outputProfile.profile,
+        targetDevice,
+        nfo
+      );
+      // the outputs are complete by now, so missing sidecars do not fail the conversion, which would be redone on every run
+      if (!nfoResult.successful) {
+        progressView.log(
+          `${this.getFullyQualifiedName(false)}: ${nfoResult.stderr}`
+        );
+        stderr = `${stderr}${nfoResult.stderr}`;
+      }
+    }
+
+    this.conversionResult = { successful, stderr };
+    if (movieState !== undefined) {
+      state.setMovieState(this.inputFilePath, {
+        ...movieState,
+        ffmpegArguments,
+        conversionResult: this.conversionResult,
+        outputFiles: outputFilePaths.map((path) => ({
+          path,
+          sizeBytes: existsSync(path) ? statSync(path).size : 0,
+        })),
+        appliedFallbacks: successful ? fallbacks : [],
+      });
+    }
+    this.conversionReport = this.createConversionReport(
+      successful ? "succeeded" : "failed",
+      ffmpegBinaryPath,
+      ffmpegArguments,
+      outputFilePaths,
+      fallbacks,
+      (Date.now() - startTimeMs) / 1000,
+      stderr
+    );
+    progressJob.finish(successful ? "done" : "failed");
+  }
+
+  // for the disk space check, the outputs of a previous successful run are assumed to be reused
+  public estimateOutputSize(
+    outputFolderPath: string,
+    outputProfile: OutputProfile,
+    streamRetention: StreamRetentionConfig | undefined,
+    state: ConversionState
+  ): OutputSizeEstimate {
+    const conversionInfo = this.getConversionInfo();
+    const movieState = state.getMovieState(this.inputFilePath);
+    if (
+      movieState?.conversionResult?.successful === true &&
+      hasIntactOutputFiles(
+        movieState,
+        this.getOutputFilePaths(outputFolderPath, conversionInfo)
+      )
+    ) {
+      return { mkvBytes: 0, srtBytes: 0 };
+    }
+
+    const {
+      containerDurationSeconds,
+      containerSizeBytes,
+      videoStreams,
+      audioStreams,
+      selectedAudioStream,
+      subtitleStreams,
+      selectedSubtitleStream,
+    } = conversionInfo;
+    const retainedStreams = getRetainedStreams(
+      decideAudioStreamRetention(
+        audioStreams,
+        selectedAudioStream,
+        outputProfile.keepOriginalAudioStreams,
+        streamRetention
+      ),
+      decideSubtitleStreamRetention(
+        subtitleStreams,
+        selectedSubtitleStream,
+        streamRetention
+      )
+    );
+
+    // a transcoded video stream is estimated at its input size
+    const copiedStreams: readonly Stream[] = [
+      ...videoStreams,
+      ...(outputProfile.audioCodec === "copy" ? [selectedAudioStream] : []),
+      ...retainedStreams.originalAudioStreams,
+      ...retainedStreams.subtitleStreams,
+    ];
+    // the streams of unknown size share what the known ones leave of the input file,
+    // which overestimates the output if some of them are dropped
+    const unknownSizeBytes = Math.max(
+      containerSizeBytes -
+        [
+          ...videoStreams,
+          ...audioStreams,
+          ...subtitleStreams.filter((s) => s.externalFile === undefined),
+        ].reduce((sum, s) => sum + (s.sizeBytes ?? 0), 0),
+      0
+    );
+    const copiedBytes =
+      copiedStreams.reduce((sum, s) => sum + (s.sizeBytes ?? 0), 0) +
+      (copiedStreams.some((s) => s.sizeBytes === undefined)
+        ? unknownSizeBytes
+        : 0);
+    const transcodedAudioBytes =
+      outputProfile.audioCodec === "copy"
+        ? 0
+        : (getAudioBitrate(outputProfile.audioBitrate) *
+            containerDurationSeconds) /
+          8;
+
+    return {
+      mkvBytes: Math.round(copiedBytes + transcodedAudioBytes),
+      srtBytes:
+        selectedSubtitleStream === null
+          ? 0
+          : isImageSubtitleCodec(selectedSubtitleStream.codecName)
+          ? estimatedSrtBytes
+          : selectedSubtitleStream.sizeBytes ?? estimatedSrtBytes,
+    };
+  }
+
+  public getConversionInfo(): ConversionInfo {
+    if (this.conversionInfo === undefined) {
+      throw new Error(
+        "AssertError: must call collectConversionInfo() before getConversionInfo()"
+      );
+    }
+    return this.conversionInfo;
+  }
+
+  public getConversionResult(): ConversionResult {
+    if (this.conversionResult === undefined) {
+      throw new Error("AssertError: conversion did not finish yet");
+    }
+    return this.conversionResult;
+  }
+
+  public getConversionReport(): MovieReport {
+    if (this.conversionReport === undefined) {
+      throw new Error("AssertError: conversion did not finish yet");
+    }
+    return this.conversionReport;
+  }
+
+  // writes movie.nfo, and the embedded cover as the poster, or a frame of the movie as the fanart if there is none,
+  // episodes get an .nfo and a thumbnail named after their MKV file instead
+  private async writeNfoSidecars(
+    outputFolderPath: string,
+    ffmpegBinaryPath: string,
+    conversionInfo: ConversionInfo,
+    retainedStreams: RetainedStreams,
+    outputProfile: OutputProfile,
+    targetDevice: TargetDevice | undefined,
+    nfo: NfoConfig
+  ): Promise<ArtworkResult> {
+    const { containerDurationSeconds, selectedSubtitleStream, coverArt } =
+      conversionInfo;
+    const outputSubfolderPath = this.getOutputSubfolderPath(
+      outputFolderPath,
+      selectedSubtitleStream
+    );
+
+    const nfoFilePath = this.getNfoFilePath(
+      outputFolderPath,
+      selectedSubtitleStream
+    );
+    const streamDetails = this.getNfoStreamDetails(
+      conversionInfo,
+      retainedStreams,
+      outputProfile,
+      targetDevice
+    );
+    try {
+      writeFileSync(
+        nfoFilePath,
+        this.episode === undefined
+          ? formatMovieNfo(
+              this.title,
+              this.year,
+              containerDurationSeconds,
+              streamDetails
+            )
+          : formatEpisodeNfo(
+              this.title,
+              this.episode.season,
+              this.episode.episode,
+              containerDurationSeconds,
+              streamDetails
+            )
+      );
+    } catch (ex) {
+      return {
+        successful: false,
+        stderr: `Could not write ${basename(nfoFilePath)}: ${
+          ex instanceof Error ? ex.message : ex
+        }`,
+      };
+    }
+
+    const episodeThumbFileName = `${this.getOutputFileBaseName()}-thumb`;
+
+    const artworkResult =
+      coverArt === undefined
+        ? await extractFrame(
+            ffmpegBinaryPath,
+            this.inputFilePath,
+            Math.min(
+              nfo.fanartTimestampSeconds ?? containerDurationSeconds / 4,
+              // a timestamp after the end of the movie would produce no frame
+              Math.max(containerDurationSeconds - 1, 0)
+            ),
+            join(
+              outputSubfolderPath,
+              this.episode === undefined
+                ? "fanart.jpg"
+                : `${episodeThumbFileName}.jpg`
+            )
+          )
+        : await extractCoverArt(
+            ffmpegBinaryPath,
+            this.inputFilePath,
+            coverArt,
+            join(
+              outputSubfolderPath,
+              `${
+                this.episode === undefined ? "poster" : episodeThumbFileName
+              }.${coverArt.fileExtension}`
+            )
+          );
+    return artworkResult.successful
+      ? artworkResult
+      : {
+          successful: false,
+          stderr: `Could not extract artwork:\n${artworkResult.stderr}`,
+        };
+  }
+
+  private getNfoStreamDetails(
+    conversionInfo: ConversionInfo,
+    retainedStreams: RetainedStreams,
+    outputProfile: OutputProfile,
+    targetDevice: TargetDevice | undefined
+  ): NfoStreamDetails {
+    const { selectedAudioStream } = conversionInfo;
+
+    const video = conversionInfo.videoStreams.map((s) => {
+      const isTranscoded =
+        targetDevice !== undefined &&
+        getVideoIncompatibilities(s, targetDevice.capabilities).length > 0;
+      const isTonemapped =
+        isTranscoded &&
+        !targetDevice.capabilities.hdr &&
+        targetDevice.videoTranscode.tonemap;
+      return {
+        codecName: this.getOutputVideoCodecName(s, targetDevice),
+        ...(isTranscoded
+          ? getTranscodedVideoSize(s, targetDevice.capabilities)
+          : { width: s.width, height: s.height }),
+        hdrType: isTonemapped ? undefined : getHdrType(s),
+      };
+    });
+
+    const audio = [
+      {
+        codecName: this.getOutputAudioCodecName(
+          selectedAudioStream,
+          outputProfile
+        ),
+        language: selectedAudioStream.language,
+        channels:
+          outputProfile.audioCodec === "copy" ||
+          outputProfile.audioChannels === undefined
+            ? getChannelCount(selectedAudioStream.channelLayout)
+            : outputProfile.audioChannels,
+      },
+      ...retainedStreams.originalAudioStreams.map((s) => ({
+        codecName: s.codecName,
+        language: s.language,
+        channels: getChannelCount(s.channelLayout),
+      })),
+    ];
+
+    const subtitle = retainedStreams.subtitleStreams.map((s) => ({
+      language: s.language,
+    }));
+
+    return { video, audio, subtitle };
+  }
+
+  private getOutputVideoCodecName(
+    videoStream: VideoStream,
+    targetDevice: TargetDevice | undefined
+  ): string {
+    return targetDevice !== undefined &&
+      getVideoIncompatibilities(videoStream, targetDevice.capabilities).length >
+        0
+      ? getCodecNameForEncoder(targetDevice.videoTranscode.encoder)
+      : videoStream.codecName;
+  }
+
+  private getOutputAudioCodecName(
+    sourceAudioStream: AudioStream,
+    outputProfile: OutputProfile
+  ): string {
+    return outputProfile.audioCodec === "copy"
+      ? sourceAudioStream.codecName
+      : getCodecNameForEncoder(outputProfile.audioCodec);
+  }
+
+  private createConversionReport(
+    status: MovieReportStatus,
+    ffmpegBinaryPath: string,
+    ffmpegArguments: readonly string[],
+    outputFilePaths: readonly string[],
+    fallbacks: readonly ConversionFallback[],
+    wallClockSeconds: number,
+    stderr: string
+  ): MovieReport {
+    const {
+      containerDurationSeconds,
+      selectedAudioStream,
+      selectedSubtitleStream,
+    } = this.getConversionInfo();
+    return {
+      name: this.getFullyQualifiedName(false),
+      status,
+      inputFile: this.getReportedFile(this.inputFilePath),
+      outputFiles: outputFilePaths.map((path) => this.getReportedFile(path)),
+      selectedAudioStream: this.getReportedStream(selectedAudioStream),
+      selectedSubtitleStream:
+        selectedSubtitleStream === null
+          ? null
+          : this.getReportedStream(selectedSubtitleStream),
+      ffmpegCommandLine: formatCommandLine(ffmpegBinaryPath, ffmpegArguments),
+      durationSeconds: containerDurationSeconds,
+      wallClockSeconds,
+      averageSpeed:
+        wallClockSeconds > 0
+          ? containerDurationSeconds / wallClockSeconds
+          : undefined,
+      fallbacks: fallbacks.map((fallback) => describeFallback(fallback)),
+      stderrExcerpt: getStderrExcerpt(stderr),
+    };
+  }
+
+  private getReportedFile(path: string): ReportedFile {
+    return {
+      path,
+      sizeBytes: existsSync(path) ? statSync(path).size : undefined,
+    };
+  }
+
+  private getReportedStream(
+    stream: AudioStream | SubtitleStream
+  ): ReportedStream {
+    return {
+      index: stream.index,
+      codecName: stream.codecName,
+      language: stream.language,
+      title: stream.title,
+      channelLayout:
+        "channelLayout" in stream ? stream.channelLayout : undefined,
+      externalFilePath:
+        "externalFile" in stream ? stream.externalFile?.path : undefined,
+    };
+  }
+
+  private runFfmpeg(
+    ffmpegBinaryPath: string,
+    ffmpegArguments: readonly string[],
+    containerDurationSeconds: number,
+    progressJob: ProgressJob,
+    stallTimeoutMinutes: number | undefined,
+    abortSignal: AbortSignal | undefined
+  ): Promise<ConversionResult> {
+    // e.g. the movie was cancelled while its loudness was measured
+    if (abortSignal?.aborted) {
+      return Promise.resolve({ successful: false, stderr: "Aborted\n" });
+    }
+
     return new Promise((resolve) => {
       const ffmpeg = spawn(ffmpegBinaryPath, ffmpegArguments);
       ffmpeg.stdout.setEncoding("utf8");
 
-      let roundedProgressPercentage = this.getRoundedProgressPercentage(0);
-      ffmpeg.stdout.on("data", (data) => {
-        const outTimeMicroseconds = data.match(/out_time_us=(.+)\n/)[1];
-        const speed = data.match(/speed=(.+)\n/)[1];
-
-        if (outTimeMicroseconds === "N/A" || speed === "N/A") {
+      // the close event waits for ffmpeg to exit after the abort
+      const onAbort = () => {
+        ffmpeg.kill(getForwardedSignal(abortSignal!));
+      };
+      abortSignal?.addEventListener("abort", onAbort);
+
+      // a stalled ffmpeg, e.g. one waiting for an unresponsive network share, may not react to SIGTERM
+      let stalled = false;
+      let stallTimeout: NodeJS.Timeout | undefined;
+      let lastOutTimeSeconds: number | undefined;
+      const restartStallTimeout = () => {
+        if (stallTimeoutMinutes === undefined) {
+          return;
+        }
+        clearTimeout(stallTimeout);
+        stallTimeout = setTimeout(() => {
+          stalled = true;
+          ffmpeg.kill("SIGKILL");
+        }, stallTimeoutMinutes * 60 * 1000);
+      };
+      restartStallTimeout();
+
+      const progressParser = new FfmpegProgressParser((event) => {
+        if (event.isEnd) {
+          progressJob.update(1, event.speed);
+          return;
+        }
+        if (event.outTimeSeconds === undefined) {
           return;
         }
-
-        const outTimeSeconds = outTimeMicroseconds / 1e6;
-        const progress = outTimeSeconds / containerDurationSeconds;
-        const newRoundedProgressPercentage =
-          this.getRoundedProgressPercentage(progress);
-        if (newRoundedProgressPercentage !== roundedProgressPercentage) {
-          roundedProgressPercentage = newRoundedProgressPercentage;
-          this.logProgress(
-            currentFileIndex,
-            allFilesCount,
-            roundedProgressPercentage,
-            speed
-          );
+        // ffmpeg keeps reporting its progress while it is stalled, only with the same out_time
+        if (
+          lastOutTimeSeconds === undefined ||
+          event.outTimeSeconds > lastOutTimeSeconds
+        ) {
+          lastOutTimeSeconds = event.outTimeSeconds;
+          restartStallTimeout();
         }
+        progressJob.update(
+          event.outTimeSeconds / containerDurationSeconds,
+          event.speed
+        );
+      });
+      ffmpeg.stdout.on("data", (data: string) => {
+        progressParser.push(data);
       });
 
       let stderr = "";
@@ -195,21 +1476,253 @@ export class Movie implements IMovie {
         stderr += data;
       });
 
-      ffmpeg.on("close", (exitCode) => {
-        this.conversionResult = {
-          successful: exitCode === 0,
+      ffmpeg.on("error", (error) => {
+        stderr += `${error.message}\n`;
+      });
+
+      ffmpeg.on("close", (exitCode, signal) => {
+        clearTimeout(stallTimeout);
+        abortSignal?.removeEventListener("abort", onAbort);
+        if (stalled) {
+          stderr += `Stalled: no progress for ${stallTimeoutMinutes} minutes\n`;
+        } else if (abortSignal?.aborted) {
+          stderr += "Aborted\n";
+        } else if (signal !== null) {
+          stderr += `Killed by ${signal}\n`;
+        }
+        resolve({
+          successful: exitCode === 0 && !stalled && !abortSignal?.aborted,
           stderr,
-        };
-        resolve();
+        });
       });
     });
   }
 
-  public getConversionResult(): ConversionResult {
-    if (this.conversionResult === undefined) {
-      throw new Error("AssertError: conversion did not finish yet");
+  // convert the extracted subtitle stream to plain SRT, using OCR for image-based subtitles
+  private async postProcessSrtOutput(
+    outputFolderPath: string,
+    selectedSubtitleStream: SubtitleStream,
+    subtitleOcr: SubtitleOcrConfig | undefined,
+    ffmpegStderr: string,
+    abortSignal: AbortSignal | undefined
+  ): Promise<ConversionResult> {
+    const srtOutputFilePath = getPartialFilePath(
+      this.getSrtOutputFilePath(outputFolderPath, selectedSubtitleStream)
+    );
+
+    if (isImageSubtitleCodec(selectedSubtitleStream.codecName)) {
+      if (subtitleOcr === undefined) {
+        throw new Error(
+          "AssertError: image-based subtitles cannot be selected without OCR"
+        );
+      }
+      const imageSubtitleFilePath = this.getImageSubtitleFilePath(
+        outputFolderPath,
+        selectedSubtitleStream
+      );
+      const ocrResult = await runSubtitleOcr(
+        subtitleOcr,
+        imageSubtitleFilePath,
+        srtOutputFilePath,
+        // OCR needs a language, and most image-based subtitles without a language tag are English
+        selectedSubtitleStream.language ?? "eng",
+        abortSignal
+      );
+      rmSync(imageSubtitleFilePath, { force: true });
+      if (!ocrResult.successful) {
+        return {
+          successful: false,
+          stderr: `${ffmpegStderr}${ocrResult.stderr}`,
+        };
+      }
+    }
+
+    try {
+      stripSrtFileStyling(srtOutputFilePath);
+    } catch (ex) {
+      return {
+        successful: false,
+        stderr: `${ffmpegStderr}${ex instanceof Error ? ex.message : ex}`,
+      };
+    }
+
+    return { successful: true, stderr: ffmpegStderr };
+  }
+
+  private async verifyOutputFiles(
+    ffprobe: Ffprobe,
+    expectedOutput: ExpectedOutput,
+    ffmpegStderr: string
+  ): Promise<ConversionResult> {
+    let problems: readonly string[];
+    try {
+      problems = verifyOutput(
+        await ffprobe.probeUncached(expectedOutput.mkvFilePath),
+        expectedOutput
+      );
+    } catch (ex) {
+      problems = [ex instanceof Error ? ex.message : `${ex}`];
+    }
+
+    if (problems.length > 0) {
+      return {
+        successful: false,
+        stderr: `${ffmpegStderr}Verification failed: ${problems.join("; ")}`,
+      };
+    }
+    return { successful: true, stderr: ffmpegStderr };
+  }
+
+  // the streams of the MKV output in the order they are mapped by getMkvOutputArguments(),
+  // which are verified before the partial output files are renamed
+  private getExpectedOutput(
+    outputFolderPath: string,
+    conversionInfo: ConversionInfo,
+    retainedStreams: RetainedStreams,
+    outputProfile: OutputProfile,
+    targetDevice: TargetDevice | undefined,
+    fallbacks: readonly ConversionFallback[]
+  ): ExpectedOutput {
+    const { selectedAudioStream, selectedSubtitleStream } = conversionInfo;
+
+    const videoStreams = conversionInfo.videoStreams.map((s) => ({
+      codecType: "video" as const,
+      codecName: this.getOutputVideoCodecName(s, targetDevice),
+      language: s.language,
+      isDefault: false,
+    }));
+
+    const selectedAudioOutputStream = {
+      codecType: "audio" as const,
+      codecName: this.getOutputAudioCodecName(
+        selectedAudioStream,
+        outputProfile
+      ),
+      language: selectedAudioStream.language,
+      isDefault: true,
+    };
+
+    const originalAudioStreams = retainedStreams.originalAudioStreams.map(
+      (s) => ({
+        codecType: "audio" as const,
+        codecName: s.codecName,
+        language: s.language,
+        isDefault: false,
+      })
+    );
+
+    const subtitleStreams = retainedStreams.subtitleStreams.map((s) => ({
+      codecType: "subtitle" as const,
+      codecName: isSubtitleReencoded(s, fallbacks) ? "subrip" : s.codecName,
+      language: s.language,
+      isDefault: false,
+    }));
+
+    return {
+      mkvFilePath: getPartialFilePath(
+        this.getMkvOutputFilePath(outputFolderPath, selectedSubtitleStream)
+      ),
+      durationSeconds: conversionInfo.containerDurationSeconds,
+      streams: [
+        ...videoStreams,
+        selectedAudioOutputStream,
+        ...originalAudioStreams,
+        ...subtitleStreams,
+      ],
+      srtFilePath:
+        selectedSubtitleStream === null
+          ? undefined
+          : getPartialFilePath(
+              this.getSrtOutputFilePath(
+                outputFolderPath,
+                selectedSubtitleStream
+              )
+            ),
+    };
+  }
+
+  // the retained streams without the ones that are dropped by a fallback
+  private getRetainedStreamsWithFallbacks(
+    retainedStreams: RetainedStreams,
+    fallbacks: readonly ConversionFallback[]
+  ): RetainedStreams {
+    return {
+      originalAudioStreams: retainedStreams.originalAudioStreams.filter(
+        (s) => !isStreamDropped(`0:${s.index}`, fallbacks)
+      ),
+      subtitleStreams: retainedStreams.subtitleStreams.filter(
+        (s) =>
+          !isStreamDropped(this.getSubtitleInputStreamSpecifier(s), fallbacks)
+      ),
+    };
+  }
+
+  // the streams of the MKV output in the order they are mapped by getMkvOutputArguments(),
+  // which ffmpeg refers to by their index when it fails
+  private getFallbackOutputStreams(
+    conversionInfo: ConversionInfo,
+    retainedStreams: RetainedStreams
+  ): readonly FallbackOutputStream[] {
+    return [
+      ...conversionInfo.videoStreams.map((s) => ({
+        streamSpecifier: `0:${s.index}`,
+        droppable: false,
+        isTextSubtitle: false,
+      })),
+      {
+        streamSpecifier: `0:${conversionInfo.selectedAudioStream.index}`,
+        droppable: false,
+        isTextSubtitle: false,
+      },
+      ...retainedStreams.originalAudioStreams.map((s) => ({
+        streamSpecifier: `0:${s.index}`,
+        droppable: true,
+        isTextSubtitle: false,
+      })),
+      ...retainedStreams.subtitleStreams.map((s) => ({
+        streamSpecifier: this.getSubtitleInputStreamSpecifier(s),
+        droppable: true,
+        isTextSubtitle: textSubtitleCodecNames.includes(s.codecName),
+      })),
+    ];
+  }
+
+  private getOutputFilePaths(
+    outputFolderPath: string,
+    conversionInfo: ConversionInfo
+  ): readonly string[] {
+    const { selectedSubtitleStream } = conversionInfo;
+    const ret = [
+      this.getMkvOutputFilePath(outputFolderPath, selectedSubtitleStream),
+    ];
+    if (selectedSubtitleStream !== null) {
+      ret.push(
+        this.getSrtOutputFilePath(outputFolderPath, selectedSubtitleStream)
+      );
+    }
+    return ret;
+  }
+
+  private removePartialOutputFiles(
+    outputFolderPath: string,
+    conversionInfo: ConversionInfo
+  ): void {
+    const { selectedSubtitleStream } = conversionInfo;
+    const partialFilePaths = this.getOutputFilePaths(
+      outputFolderPath,
+      conversionInfo
+    ).map((outputFilePath) => getPartialFilePath(outputFilePath));
+    if (
+      selectedSubtitleStream !== null &&
+      isImageSubtitleCodec(selectedSubtitleStream.codecName)
+    ) {
+      partialFilePaths.push(
+        this.getImageSubtitleFilePath(outputFolderPath, selectedSubtitleStream)
+      );
+    }
+    for (const partialFilePath of partialFilePaths) {
+      rmSync(partialFilePath, { force: true });
     }
-    return this.conversionResult;
   }
 
   private getOutputSubfolderPath(
@@ -218,35 +1731,115 @@ export class Movie implements IMovie {
   ): string {
     const outputSubfolderName =
       selectedSubtitleStream === null ? "external_subtitle_needed" : "ready";
+    // the episodes of a series are in season folders, the layout Plex, Jellyfin, and Kodi expect
     return join(
       outputFolderPath,
       outputSubfolderName,
-      this.getFullyQualifiedName(true)
+      ...this.naming.getFolderNames(this)
     );
   }
 
-  private getInputFileMediaInfo(
-    inputFilePath: string,
-    ffprobeBinary: string
-  ): ContainerInfo {
-    const { stdout } = spawnSync(
-      ffprobeBinary,
-      [
-        "-hide_banner",
-        "-loglevel",
-        "warning",
-        "-show_format",
-        "-show_streams",
-        "-output_format",
-        "json",
-        inputFilePath,
-      ],
-      {
-        encoding: "utf8",
+  // e.g. "Show - S01E03" for an episode
+  private getOutputFileBaseName(): string {
+    return this.naming.getFileName(this);
+  }
+
+  // the key of the season in the state, e.g. "Show (2008) Season 01"
+  private getSeasonName(): string {
+    const { season } = this.episode!;
+    return `${this.title} (${this.year}) ${
+      season === 0 ? "Specials" : `Season ${`${season}`.padStart(2, "0")}`
+    }`;
+  }
+
+  // undefined if the season has no stream selection yet, or this episode does not have the same streams
+  private getSeasonStreamSelection(
+    state: ConversionState,
+    audioStreams: readonly AudioStream[],
+    subtitleStreams: readonly SubtitleStream[]
+  ):
+    | {
+        readonly audioStream: AudioStream;
+        readonly subtitleStream: SubtitleStream | null;
       }
+    | undefined {
+    if (this.episode === undefined) {
+      return undefined;
+    }
+    const seasonState = state.getSeasonState(this.getSeasonName());
+    if (seasonState === undefined) {
+      return undefined;
+    }
+
+    const audioStream = audioStreams.find((s) =>
+      isSameStream(s, seasonState.selectedAudioStream)
+    );
+    const subtitleStream =
+      seasonState.selectedSubtitleStream === null
+        ? null
+        : subtitleStreams.find((s) =>
+            isSameStream(s, seasonState.selectedSubtitleStream!)
+          );
+    if (audioStream === undefined || subtitleStream === undefined) {
+      return undefined;
+    }
+    return { audioStream, subtitleStream };
+  }
+
+  private saveSeasonStreamSelection(
+    state: ConversionState,
+    audioStream: AudioStream,
+    subtitleStream: SubtitleStream | null
+  ): void {
+    state.setSeasonState(this.getSeasonName(), {
+      selectedAudioStream: {
+        index: audioStream.index,
+        codecName: audioStream.codecName,
+        language: audioStream.language,
+      },
+      selectedSubtitleStream:
+        subtitleStream === null
+          ? null
+          : {
+              index: subtitleStream.index,
+              codecName: subtitleStream.codecName,
+              language: subtitleStream.language,
+            },
+    });
+  }
+
+  private async getInputFileMediaInfo(
+    inputFilePath: string,
+    ffprobe: Ffprobe
+  ): Promise<ContainerInfo> {
+    const ffprobeOutput = await ffprobe.probe(inputFilePath);
+    const containerDurationSeconds = Number.parseFloat(
+      ffprobeOutput.format.duration
     );
 
-    const ffprobeOutput: FfProbeOutput = JSON.parse(stdout);
+    // only the video streams that are not attached pictures, video thumbnails, or cover arts
+    const videoStreams: VideoStream[] = ffprobeOutput.streams
+      .filter(
+        (s): s is FfprobeVideoStream =>
+          s.codec_type === "video" && s.disposition["attached_pic"] !== 1
+      )
+      .map((s) => ({
+        index: s.index,
+        codecName: s.codec_name,
+        language: s.tags?.["language"],
+        title: s.tags?.["title"],
+        dispositionsWithoutDefault:
+          convertFfprobeDispositionMapToDispositionListWithoutDefault(
+            s.disposition
+          ),
+        sizeBytes: getStreamSizeBytes(s, containerDurationSeconds),
+        profile: s.profile,
+        level: s.level,
+        pixelFormat: s.pix_fmt,
+        width: s.width,
+        height: s.height,
+        colorTransfer: s.color_transfer,
+      }));
 
     const audioStreams: AudioStream[] = ffprobeOutput.streams
       .filter((s) => s.codec_type === "audio")
@@ -259,6 +1852,7 @@ export class Movie implements IMovie {
           convertFfprobeDispositionMapToDispositionListWithoutDefault(
             s.disposition
           ),
+        sizeBytes: getStreamSizeBytes(s, containerDurationSeconds),
         channelLayout: s.channel_layout,
       }));
 
@@ -273,18 +1867,113 @@ export class Movie implements IMovie {
           convertFfprobeDispositionMapToDispositionListWithoutDefault(
             s.disposition
           ),
+        sizeBytes: getStreamSizeBytes(s, containerDurationSeconds),
       }));
 
+    // prefer the MKV cover attachment, then an attached picture, e.g. in MP4 files
+    const imageAttachments = ffprobeOutput.streams.filter(
+      (s) =>
+        s.codec_type === "attachment" &&
+        getCoverArtFileExtension(s.tags?.["mimetype"]) !== undefined
+    );
+    const coverAttachment =
+      imageAttachments.find((s) =>
+        /^cover\./i.test(s.tags?.["filename"] ?? "")
+      ) ?? imageAttachments[0];
+    const attachedPicture = ffprobeOutput.streams.find(
+      (s) =>
+        s.codec_type === "video" &&
+        s.disposition["attached_pic"] === 1 &&
+        getAttachedPictureFileExtension(s.codec_name) !== undefined
+    );
+    const coverArt: CoverArt | undefined =
+      coverAttachment !== undefined
+        ? {
+            streamIndex: coverAttachment.index,
+            kind: "attachment",
+            fileExtension: getCoverArtFileExtension(
+              coverAttachment.tags?.["mimetype"]
+            )!,
+          }
+        : attachedPicture !== undefined
+        ? {
+            streamIndex: attachedPicture.index,
+            kind: "attachedPicture",
+            fileExtension: getAttachedPictureFileExtension(
+              attachedPicture.codec_name
+            )!,
+          }
+        : undefined;
+
+    const chapters: Chapter[] = (ffprobeOutput.chapters ?? []).map((c) => ({
+      startMilliseconds: Number.parseFloat(c.start_time) * 1000,
+      endMilliseconds: Number.parseFloat(c.end_time) * 1000,
+      title: c.tags?.["title"],
+    }));
+
     return {
-      containerDurationSeconds: ffprobeOutput.format.duration,
+      containerDurationSeconds,
+      containerSizeBytes: statSync(inputFilePath).size,
+      videoStreams,
       audioStreams,
       subtitleStreams,
+      coverArt,
+      chapters,
+      containerTags: ffprobeOutput.format.tags ?? {},
     };
   }
 
+  // only subtitles that can be converted to SRT can be selected
+  private getConvertibleSubtitleStreams(
+    subtitleStreams: readonly SubtitleStream[],
+    subtitleOcr: SubtitleOcrConfig | undefined
+  ): readonly SubtitleStream[] {
+    return subtitleStreams.filter(
+      (s) =>
+        textSubtitleCodecNames.includes(s.codecName) ||
+        (subtitleOcr !== undefined && isImageSubtitleCodec(s.codecName))
+    );
+  }
+
   private async selectAudioStream(
-    audioStreams: readonly AudioStream[]
+    audioStreams: readonly AudioStream[],
+    rules: readonly StreamSelectionRule[],
+    interactive: boolean
   ): Promise<AudioStream> {
+    const outcome = selectStreamByRules(audioStreams, rules, "audio");
+    if (outcome.kind === "selected") {
+      console.log(
+        `Selected audio stream ${outcome.stream.index} (${this.getStreamTitle(
+          outcome.stream.language,
+          outcome.stream.codecName,
+          outcome.stream.title,
+          outcome.stream.channelLayout
+        )}) by ${outcome.ruleDescription}`
+      );
+      return outcome.stream;
+    }
+    if (outcome.kind === "ambiguous") {
+      console.log(
+        `Audio streams ${outcome.candidates
+          .map((stream) => stream.index)
+          .join(", ")} are equally preferred by ${outcome.ruleDescription}`
+      );
+    }
+
+    if (!interactive) {
+      // the only audio stream needs no rule to be selected
+      if (audioStreams.length === 1) {
+        return audioStreams[0]!;
+      }
+      throw new Error(
+        outcome.kind === "ambiguous"
+          ? `Audio streams ${outcome.candidates
+              .map((stream) => stream.index)
+              .join(", ")} are equally preferred by ${outcome.ruleDescription}`
+          : "No audio stream matches the stream selection rules"
+      );
+    }
+
     console.table(
       audioStreams.map((stream) => ({
         Index: stream.index,
@@ -313,21 +2002,58 @@ export class Movie implements IMovie {
   }
 
   private async selectSubtitleStream(
-    subtitleStreams: readonly SubtitleStream[]
+    subtitleStreams: readonly SubtitleStream[],
+    rules: readonly StreamSelectionRule[],
+    hasExternalSubtitles: boolean,
+    interactive: boolean
   ): Promise<SubtitleStream | null> {
+    const outcome = selectStreamByRules(subtitleStreams, rules, "subtitle");
+    if (outcome.kind === "selected") {
+      console.log(
+        `Selected subtitle stream ${
+          outcome.stream.index
+        } (${this.getStreamTitle(
+          outcome.stream.language,
+          outcome.stream.codecName,
+          outcome.stream.title
+        )}) by ${outcome.ruleDescription}`
+      );
+      return outcome.stream;
+    }
+    if (outcome.kind === "ambiguous") {
+      console.log(
+        `Subtitle streams ${outcome.candidates
+          .map((stream) => stream.index)
+          .join(", ")} are equally preferred by ${outcome.ruleDescription}`
+      );
+    }
+
+    if (!interactive) {
+      // a movie without a matching subtitle stream is converted without one, or with the external subtitles
+      if (outcome.kind === "noMatch") {
+        return null;
+      }
+      throw new Error(
+        `Subtitle streams ${outcome.candidates
+          .map((stream) => stream.index)
+          .join(", ")} are equally preferred by ${outcome.ruleDescription}`
+      );
+    }
+
     console.table(
-      subtitleStreams
-        .filter((s) => s.codecName === "subrip")
-        .map((stream) => ({
-          Index: stream.index,
-          Language: stream.language,
-          Title: stream.title ?? "",
-        }))
+      subtitleStreams.map((stream) => ({
+        Index: stream.index,
+        Language: stream.language,
+        Codec: stream.codecName,
+        Title: stream.title ?? "",
+      }))
     );
 
     while (true) {
       const subtitleStreamSelectionAnswer = await question(
-        "Select subtitle stream index (leave empty if using external subtitles): "
+        hasExternalSubtitles
+          ? "Select subtitle stream index (leave empty to use the external subtitles): "
+          : "Select subtitle stream index (leave empty if using external subtitles): "
       );
       if (subtitleStreamSelectionAnswer === "") {
         return null;
@@ -346,22 +2072,92 @@ export class Movie implements IMovie {
     }
   }
 
+  private getExternalSubtitleStreams(): readonly SubtitleStream[] {
+    const configuredPaths = (this.externalSubtitles ?? []).map((s) =>
+      resolve(s.path)
+    );
+    const externalSubtitles = [
+      ...(this.externalSubtitles ?? []),
+      ...discoverSidecarSubtitles(this.inputFilePath).filter(
+        (s) => !configuredPaths.includes(resolve(s.path))
+      ),
+    ];
+
+    return externalSubtitles.map((externalSubtitle, i) => ({
+      // the stream index within the subtitle file
+      index: 0,
+      codecName: getSubtitleFileCodecName(externalSubtitle.path)!,
+      language: externalSubtitle.language,
+      title: undefined,
+      dispositionsWithoutDefault: [],
+      sizeBytes: statSync(externalSubtitle.path).size,
+      externalFile: {
+        inputIndex: i + 1,
+        path: externalSubtitle.path,
+        characterEncoding: detectSubtitleCharacterEncoding(externalSubtitle),
+        sync: externalSubtitle.sync,
+      },
+    }));
+  }
+
+  private selectExternalSubtitleStream(
+    externalSubtitleStreams: readonly SubtitleStream[],
+    rules: readonly StreamSelectionRule[]
+  ): SubtitleStream | null {
+    if (externalSubtitleStreams.length === 0) {
+      return null;
+    }
+
+    const outcome = selectStreamByRules(
+      externalSubtitleStreams,
+      rules,
+      "subtitle"
+    );
+    const selectedSubtitleStream =
+      outcome.kind === "selected"
+        ? outcome.stream
+        : outcome.kind === "ambiguous"
+        ? outcome.candidates[0]!
+        : externalSubtitleStreams[0]!;
+    console.log(
+      `Using external subtitle ${selectedSubtitleStream.externalFile!.path}${
+        outcome.kind === "noMatch"
+          ? ""
+          : ` selected by ${outcome.ruleDescription}`
+      }`
+    );
+    return selectedSubtitleStream;
+  }
+
   private getMkvOutputArguments(
     outputFolderPath: string,
-    conversionInfo: ConversionInfo
+    conversionInfo: ConversionInfo,
+    retainedStreams: RetainedStreams,
+    outputProfile: OutputProfile,
+    audioFilters: readonly string[],
+    targetDevice: TargetDevice | undefined,
+    chaptersInputIndex: number,
+    metadataTagWhitelist: readonly string[],
+    fallbacks: readonly ConversionFallback[]
   ): readonly string[] {
     const mkvOutputArguments = [
       // do not transcode any streams unless explicitly specified
       "-codec",
       "copy",
 
-      // remove all metadata
+      // remove all metadata, the whitelisted global tags are written back below
       "-map_metadata",
       "-1",
+      ...getGlobalMetadataArguments(
+        conversionInfo.containerTags,
+        metadataTagWhitelist,
+        this.title,
+        this.year
+      ),
 
-      // remove all chapters
+      // copy the chapters from the given input, or remove them if it is -1
       "-map_chapters",
-      "-1",
+      `${chaptersInputIndex}`,
 
       // map video streams (that are not attached pictures, video thumbnails, or cover arts)
       "-map",
@@ -372,34 +2168,41 @@ export class Movie implements IMovie {
       `0:${conversionInfo.selectedAudioStream.index}`,
     ];
 
-    // map all audio input streams
-    for (const audioStream of conversionInfo.audioStreams) {
+    // map the retained audio input streams
+    const { originalAudioStreams } = retainedStreams;
+    for (const audioStream of originalAudioStreams) {
       mkvOutputArguments.push("-map", `0:${audioStream.index}`);
     }
 
-    // map all subtitle input streams
-    for (const subtitleStream of conversionInfo.subtitleStreams) {
-      mkvOutputArguments.push("-map", `0:${subtitleStream.index}`);
+    // map the retained subtitle input streams
+    for (const subtitleStream of retainedStreams.subtitleStreams) {
+      mkvOutputArguments.push(
+        "-map",
+        this.getSubtitleInputStreamSpecifier(subtitleStream)
+      );
+    }
+
+    // transcode the video streams that the target device cannot play
+    if (targetDevice !== undefined) {
+      conversionInfo.videoStreams.forEach((videoStream, i) => {
+        if (
+          getVideoIncompatibilities(videoStream, targetDevice.capabilities)
+            .length > 0
+        ) {
+          mkvOutputArguments.push(
+            ...getVideoTranscodeArguments(`v:${i}`, videoStream, targetDevice)
+          );
+        }
+      });
     }
 
     // for the first audio output stream (mapped from the selected audio input stream)
     mkvOutputArguments.push(
-      // transcode to AAC at 256k bitrate
-      "-codec:a:0",
-      "aac",
-      "-b:a:0",
-      "256k",
-
-      // downmix to 2.0
-      "-ac:a:0",
-      "2",
-
-      ...this.getStreamMetadataArguments(
+      ...this.getOutputProfileArguments(
         "a:0",
-        conversionInfo.selectedAudioStream.language,
-        "aac",
-        undefined,
-        "stereo"
+        conversionInfo.selectedAudioStream,
+        outputProfile,
+        audioFilters
       ),
 
       ...this.getStreamDispositionArguments(
@@ -410,7 +2213,7 @@ export class Movie implements IMovie {
     );
 
     // for all other audio output streams
-    conversionInfo.audioStreams.forEach((audioStream, i) => {
+    originalAudioStreams.forEach((audioStream, i) => {
       mkvOutputArguments.push(
         ...this.getStreamMetadataArguments(
           `a:${i + 1}`,
@@ -429,7 +2232,11 @@ export class Movie implements IMovie {
     });
 
     // for all subtitle output streams
-    conversionInfo.subtitleStreams.forEach((subtitleStream, i) => {
+    retainedStreams.subtitleStreams.forEach((subtitleStream, i) => {
+      // some text-based subtitle codecs cannot be copied into MKV, and legacy encoded subtitles are stored as UTF-8
+      if (isSubtitleReencoded(subtitleStream, fallbacks)) {
+        mkvOutputArguments.push(`-codec:s:${i}`, "srt");
+      }
       mkvOutputArguments.push(
         ...this.getStreamMetadataArguments(
           `s:${i}`,
@@ -446,16 +2253,138 @@ export class Movie implements IMovie {
       );
     });
 
+    // for streams with sparse packets, e.g. subtitles that start long after the video and the audio
+    if (hasFallback("increaseMuxingQueueSize", fallbacks)) {
+      mkvOutputArguments.push("-max_muxing_queue_size", `${muxingQueueSize}`);
+    }
+
     mkvOutputArguments.push(
-      this.getMkvOutputFilePath(
-        outputFolderPath,
-        conversionInfo.selectedSubtitleStream
+      getPartialFilePath(
+        this.getMkvOutputFilePath(
+          outputFolderPath,
+          conversionInfo.selectedSubtitleStream
+        )
       )
     );
 
     return mkvOutputArguments;
   }
 
+  // the filters of the transcoded audio stream, measuring its loudness first if loudnorm is enabled
+  private async getAudioFilters(
+    ffmpegBinaryPath: string,
+    outputProfile: OutputProfile,
+    dryRun: boolean,
+    state: ConversionState,
+    progressView: ProgressView,
+    abortSignal: AbortSignal | undefined
+  ): Promise<readonly string[]> {
+    // a passthrough stream cannot be filtered, so the audio processing of the movie is ignored
+    if (outputProfile.audioCodec === "copy") {
+      return [];
+    }
+
+    const { selectedAudioStream } = this.getConversionInfo();
+    const audioProcessing = mergeAudioProcessingConfigs(
+      outputProfile.audioProcessing,
+      this.audioProcessing
+    );
+    const preLoudnormFilters = getPreLoudnormFilters(
+      selectedAudioStream.channelLayout,
+      outputProfile.audioChannels,
+      outputProfile.audioFilter,
+      audioProcessing
+    );
+    if (audioProcessing.loudnorm === undefined) {
+      return preLoudnormFilters;
+    }
+
+    const measurementArguments = getLoudnessMeasurementArguments(
+      this.inputFilePath,
+      selectedAudioStream.index,
+      preLoudnormFilters,
+      audioProcessing.loudnorm
+    );
+    const movieState = state.getMovieState(this.inputFilePath);
+    let measurement: LoudnormMeasurement | undefined =
+      movieState?.loudnessMeasurement?.measurementArguments.join("\0") ===
+      measurementArguments.join("\0")
+        ? movieState.loudnessMeasurement.measurement
+        : undefined;
+
+    if (measurement === undefined && dryRun) {
+      progressView.log(`${ffmpegBinaryPath} ${measurementArguments.join(" ")}`);
+      measurement = {
+        inputIntegratedLoudness: "{input_i}",
+        inputTruePeak: "{input_tp}",
+        inputLoudnessRange: "{input_lra}",
+        inputThreshold: "{input_thresh}",
+        targetOffset: "{target_offset}",
+      };
+    }
+
+    if (measurement === undefined) {
+      progressView.log(
+        `${this.getFullyQualifiedName(false)}: measuring loudness…`
+      );
+      measurement = await measureLoudness(
+        ffmpegBinaryPath,
+        measurementArguments,
+        abortSignal
+      );
+      if (movieState !== undefined) {
+        state.setMovieState(this.inputFilePath, {
+          ...movieState,
+          loudnessMeasurement: { measurementArguments, measurement },
+        });
+      }
+    }
+
+    return [
+      ...preLoudnormFilters,
+      ...getLoudnormFilters(audioProcessing.loudnorm, measurement),
+    ];
+  }
+
+  private getOutputProfileArguments(
+    streamSpecifier: string,
+    sourceAudioStream: AudioStream,
+    outputProfile: OutputProfile,
+    audioFilters: readonly string[]
+  ): readonly string[] {
+    const ret = [`-codec:${streamSpecifier}`, outputProfile.audioCodec];
+
+    if (outputProfile.audioBitrate !== undefined) {
+      ret.push(`-b:${streamSpecifier}`, outputProfile.audioBitrate);
+    }
+
+    if (outputProfile.audioChannels !== undefined) {
+      ret.push(`-ac:${streamSpecifier}`, `${outputProfile.audioChannels}`);
+    }
+
+    if (audioFilters.length > 0) {
+      ret.push(`-filter:${streamSpecifier}`, audioFilters.join(","));
+    }
+
+    // a passthrough stream keeps the codec and channel layout of its source
+    const isPassthrough = outputProfile.audioCodec === "copy";
+    ret.push(
+      ...this.getStreamMetadataArguments(
+        streamSpecifier,
+        sourceAudioStream.language,
+        isPassthrough
+          ? sourceAudioStream.codecName
+          : outputProfile.audioCodec.replace(/^lib/, ""),
+        undefined,
+        isPassthrough || outputProfile.audioChannels === undefined
+          ? sourceAudioStream.channelLayout
+          : getChannelLayoutName(outputProfile.audioChannels)
+      )
+    );
+
+    return ret;
+  }
+
   private getSrtOutputArguments(
     outputFolderPath: string,
     conversionInfo: ConversionInfo
@@ -465,29 +2394,37 @@ export class Movie implements IMovie {
       return [];
     }
 
+    // image-based subtitles are extracted as they are, and converted to SRT with OCR afterwards
+    if (isImageSubtitleCodec(conversionInfo.selectedSubtitleStream.codecName)) {
+      return [
+        "-map",
+        this.getSubtitleInputStreamSpecifier(
+          conversionInfo.selectedSubtitleStream
+        ),
+        "-codec",
+        "copy",
+        this.getImageSubtitleFilePath(
+          outputFolderPath,
+          conversionInfo.selectedSubtitleStream
+        ),
+      ];
+    }
+
+    // text-based subtitles are converted to SRT by ffmpeg
     return [
       "-map",
-      `0:${conversionInfo.selectedSubtitleStream.index}`,
-      this.getSrtOutputFilePath(
-        outputFolderPath,
+      this.getSubtitleInputStreamSpecifier(
         conversionInfo.selectedSubtitleStream
       ),
+      getPartialFilePath(
+        this.getSrtOutputFilePath(
+          outputFolderPath,
+          conversionInfo.selectedSubtitleStream
+        )
+      ),
     ];
   }
 
-  private logProgress(
-    currentFileIndex: number,
-    allFilesCount: number,
-    progressPercentageRounded: string,
-    speed: number
-  ) {
-    console.log(
-      `[${currentFileIndex} / ${allFilesCount}] ${this.getFullyQualifiedName(
-        false
-      )} [${progressPercentageRounded}% at ${speed}]`
-    );
-  }
-
   private getMkvOutputFilePath(
     outputFolderPath: string,
     selectedSubtitleStream: SubtitleStream | null
@@ -496,10 +2433,22 @@ export class Movie implements IMovie {
       outputFolderPath,
       selectedSubtitleStream
     );
-    const outputFileName = `${this.getFullyQualifiedName(true)}.mkv`;
+    const outputFileName = `${this.getOutputFileBaseName()}.mkv`;
     return join(outputSubfolderPath, outputFileName);
   }
 
+  private getNfoFilePath(
+    outputFolderPath: string,
+    selectedSubtitleStream: SubtitleStream | null
+  ): string {
+    return join(
+      this.getOutputSubfolderPath(outputFolderPath, selectedSubtitleStream),
+      this.episode === undefined
+        ? "movie.nfo"
+        : `${this.getOutputFileBaseName()}.nfo`
+    );
+  }
+
   private getSrtOutputFilePath(
     outputFolderPath: string,
     selectedSubtitleStream: SubtitleStream
@@ -508,14 +2457,92 @@ export class Movie implements IMovie {
       outputFolderPath,
       selectedSubtitleStream
     );
-    const outputFileName = [
-      this.getFullyQualifiedName(true),
-      selectedSubtitleStream.language ?? "???",
-      "srt",
-    ].join(".");
+    const outputFileName = `${this.naming.getSubtitleFileName(
+      this,
+      selectedSubtitleStream.language,
+      selectedSubtitleStream.dispositionsWithoutDefault.includes("forced")
+    )}.srt`;
     return join(outputSubfolderPath, outputFileName);
   }
 
+  // synced subtitles are temporary files, so they are hidden in the output folder
+  private getSyncedSubtitleFilePath(
+    outputFolderPath: string,
+    subtitleStream: SubtitleStream
+  ): string {
+    return join(
+      outputFolderPath,
+      `.${this.getFullyQualifiedName(true)}.${
+        subtitleStream.externalFile?.inputIndex
+      }.synced.srt`
+    );
+  }
+
+  // rewritten chapters are temporary files, so they are hidden in the output folder
+  private getChaptersFilePath(outputFolderPath: string): string {
+    return join(
+      outputFolderPath,
+      `.${this.getFullyQualifiedName(true)}.chapters.txt`
+    );
+  }
+
+  private getAlignmentReference(
+    ffmpegBinaryPath: string,
+    sync: SubtitleSyncConfig,
+    conversionInfo: ConversionInfo,
+    abortSignal: AbortSignal | undefined
+  ): AlignmentReference | undefined {
+    if (sync.autoAlign === "speech") {
+      return {
+        ffmpegBinaryPath,
+        inputFilePath: this.inputFilePath,
+        streamIndex: conversionInfo.selectedAudioStream.index,
+        durationSeconds: conversionInfo.containerDurationSeconds,
+        abortSignal,
+      };
+    }
+
+    if (sync.autoAlign === "subtitle") {
+      const referenceSubtitleStream = conversionInfo.subtitleStreams.find(
+        (s) =>
+          s.externalFile === undefined &&
+          textSubtitleCodecNames.includes(s.codecName)
+      );
+      return referenceSubtitleStream === undefined
+        ? undefined
+        : {
+            ffmpegBinaryPath,
+            inputFilePath: this.inputFilePath,
+            streamIndex: referenceSubtitleStream.index,
+            durationSeconds: conversionInfo.containerDurationSeconds,
+            abortSignal,
+          };
+    }
+
+    return undefined;
+  }
+
+  private getSubtitleInputStreamSpecifier(
+    subtitleStream: SubtitleStream
+  ): string {
+    const inputIndex = subtitleStream.externalFile?.inputIndex ?? 0;
+    return `${inputIndex}:${subtitleStream.index}`;
+  }
+
+  // the extracted image-based subtitles are only the input of OCR, so they are hidden like the partial outputs
+  private getImageSubtitleFilePath(
+    outputFolderPath: string,
+    selectedSubtitleStream: SubtitleStream
+  ): string {
+    const srtOutputFilePath = getPartialFilePath(
+      this.getSrtOutputFilePath(outputFolderPath, selectedSubtitleStream)
+    );
+    return srtOutputFilePath.replace(
+      /srt$/,
+      imageSubtitleCodecFileExtensions[selectedSubtitleStream.codecName]!
+    );
+  }
+
   private getStreamMetadataArguments(
     streamSpecifier: string,
     language: string | undefined,
@@ -586,8 +2613,4 @@ export class Movie implements IMovie {
 
     return ret.join("+");
   }
-
-  private getRoundedProgressPercentage(normalizedProgress: number) {
-    return (normalizedProgress * 100).toFixed(2);
-  }
 }
@@ -0,0 +1,309 @@
+import type { IMovie } from "./movie";
+import { Schema } from "./schema";
+
+// the templates are without extensions, e.g. "{title} ({year}) [{edition}]",
+// brackets that only hold empty placeholders are removed, e.g. "[{edition}]" of a movie without an edition
+export interface NamingConfig {
+  readonly movieFolder?: string | undefined;
+  readonly movieFile?: string | undefined;
+  readonly seriesFolder?: string | undefined;
+  // season 0 is always in the "Specials" folder
+  readonly seasonFolder?: string | undefined;
+  readonly episodeFile?: string | undefined;
+  // {name} is the name of the MKV file, e.g. "{name}.{lang}{forced}"
+  readonly subtitleFile?: string | undefined;
+  // "windows" also removes the characters that Windows and SMB shares do not allow, defaults to "windows"
+  readonly fileSystem?: FileSystem | undefined;
+  // e.g. "Amélie" becomes "Amelie", the letters without an ASCII equivalent are kept
+  readonly transliterate?: boolean | undefined;
+}
+
+export type FileSystem = "windows" | "posix";
+
+type NamedMovie = Pick<IMovie, "title" | "year" | "edition" | "episode">;
+
+const defaultTemplates: { readonly [key in TemplateKey]: string } = {
+  movieFolder: "{title} ({year}) [{edition}]",
+  movieFile: "{title} ({year}) [{edition}]",
+  seriesFolder: "{title} ({year})",
+  seasonFolder: "Season {season}",
+  episodeFile: "{title} - S{season}E{episode}",
+  subtitleFile: "{name}.{lang}{forced}",
+};
+
+type TemplateKey =
+  | "movieFolder"
+  | "movieFile"
+  | "seriesFolder"
+  | "seasonFolder"
+  | "episodeFile"
+  | "subtitleFile";
+
+const allowedPlaceholders: {
+  readonly [key in TemplateKey]: readonly string[];
+} = {
+  movieFolder: ["title", "year", "edition"],
+  movieFile: ["title", "year", "edition"],
+  seriesFolder: ["title", "year"],
+  seasonFolder: ["season"],
+  episodeFile: ["title", "year", "season", "episode"],
+  subtitleFile: [
+    "title",
+    "year",
+    "edition",
+    "season",
+    "episode",
+    "name",
+    "lang",
+    "forced",
+  ],
+};
+
+// the extensions are added to the names, so the templates must not have them
+const templateExtensions: { readonly [key in TemplateKey]?: string } = {
+  movieFile: ".mkv",
+  episodeFile: ".mkv",
+  subtitleFile: ".srt",
+};
+
+// the device names of DOS, which Windows does not allow as file names even with an extension
+const reservedWindowsNames = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\.|$)/i;
+
+// the letters that do not decompose into an ASCII letter and combining marks
+const transliterations: { readonly [character: string]: string } = {
+  ß: "ss",
+  æ: "ae",
+  Æ: "AE",
+  œ: "oe",
+  Œ: "OE",
+  ø: "o",
+  Ø: "O",
+  ł: "l",
+  Ł: "L",
+  đ: "d",
+  Đ: "D",
+  ð: "d",
+  Ð: "D",
+  þ: "th",
+  Þ: "Th",
+  ı: "i",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "…": "...",
+};
+
+export const namingConfigSchema: Schema = {
+  type: "object",
+  description:
+    "templates of the output names without extensions, e.g. {title} ({year}) [{edition}]",
+  properties: {
+    movieFolder: { type: "string", minLength: 1 },
+    movieFile: { type: "string", minLength: 1 },
+    seriesFolder: { type: "string", minLength: 1 },
+    seasonFolder: {
+      type: "string",
+      description: 'season 0 is always in the "Specials" folder',
+      minLength: 1,
+    },
+    episodeFile: { type: "string", minLength: 1 },
+    subtitleFile: {
+      type: "string",
+      description: "{name} is the name of the MKV file",
+      minLength: 1,
+    },
+    fileSystem: {
+      type: "string",
+      description:
+        '"windows" also removes the characters that Windows and SMB shares do not allow, defaults to "windows"',
+      enum: ["windows", "posix"],
+    },
+    transliterate: { type: "boolean" },
+  },
+  additionalProperties: false,
+};
+
+// the problems that the schema cannot tell, e.g. unknown placeholders
+export function validateNamingConfig(
+  naming: NamingConfig | undefined
+): readonly string[] {
+  const problems: string[] = [];
+  for (const key of Object.keys(defaultTemplates) as TemplateKey[]) {
+    const template = naming?.[key];
+    if (template === undefined) {
+      continue;
+    }
+    for (const placeholder of getPlaceholders(template)) {
+      if (!allowedPlaceholders[key].includes(placeholder)) {
+        problems.push(
+          `config.naming.${key} has the unknown placeholder {${placeholder}}, the known ones are ${allowedPlaceholders[
+            key
+          ]
+            .map((p) => `{${p}}`)
+            .join(", ")}`
+        );
+      }
+    }
+    const extension = templateExtensions[key];
+    if (extension !== undefined && template.toLowerCase().endsWith(extension)) {
+      problems.push(
+        `config.naming.${key} must not end with ${extension}, it is added to the name`
+      );
+    }
+  }
+  // the episodes of a season would overwrite each other
+  if (
+    naming?.episodeFile !== undefined &&
+    !getPlaceholders(naming.episodeFile).includes("episode")
+  ) {
+    problems.push(
+      "config.naming.episodeFile must have the {episode} placeholder"
+    );
+  }
+  return problems;
+}
+
+// renders the folder and file names of the outputs, and removes the characters the file system does not allow
+export class FileNaming {
+  public static create(naming: NamingConfig | undefined): FileNaming {
+    return new FileNaming(
+      getTemplates(naming),
+      naming?.fileSystem ?? "windows",
+      naming?.transliterate ?? false
+    );
+  }
+
+  private constructor(
+    private readonly templates: { readonly [key in TemplateKey]: string },
+    private readonly fileSystem: FileSystem,
+    private readonly transliterate: boolean
+  ) {}
+
+  // e.g. ["Breaking Bad (2008)", "Season 01"] for an episode
+  public getFolderNames(movie: NamedMovie): readonly string[] {
+    if (movie.episode === undefined) {
+      return [this.render("movieFolder", movie, {})];
+    }
+    return [
+      this.render("seriesFolder", movie, {}),
+      movie.episode.season === 0
+        ? "Specials"
+        : this.render("seasonFolder", movie, {}),
+    ];
+  }
+
+  // without the extension, e.g. "Breaking Bad - S01E03"
+  public getFileName(movie: NamedMovie): string {
+    return this.render(
+      movie.episode === undefined ? "movieFile" : "episodeFile",
+      movie,
+      {}
+    );
+  }
+
+  // without the extension, e.g. "The Matrix (1999).hun" or "The Matrix (1999).hun.forced"
+  public getSubtitleFileName(
+    movie: NamedMovie,
+    language: string | undefined,
+    forced: boolean
+  ): string {
+    return this.render("subtitleFile", movie, {
+      name: this.getFileName(movie),
+      // "und" is the ISO 639-2 code of an undetermined language
+      lang: language ?? "und",
+      forced: forced ? ".forced" : "",
+    });
+  }
+
+  public sanitize(name: string): string {
+    let ret = this.removeIllegalCharacters(name)
+      .replace(/\s+/g, " ")
+      .trim()
+      // a leading dot would hide the file, as the partial outputs are hidden
+      .replace(/^\.+\s*/, "");
+    if (this.fileSystem === "windows") {
+      ret = ret.replace(/[. ]+$/, "");
+      if (reservedWindowsNames.test(ret)) {
+        ret = `${ret}_`;
+      }
+    }
+    return ret;
+  }
+
+  // Windows does not tell apart the file names that only differ in case
+  public getComparablePath(filePath: string): string {
+    return this.fileSystem === "windows"
+      ? filePath.normalize("NFC").toLowerCase()
+      : filePath.normalize("NFC");
+  }
+
+  private removeIllegalCharacters(name: string): string {
+    const normalizedName = name.normalize("NFC");
+    return (
+      this.transliterate ? transliterate(normalizedName) : normalizedName
+    ).replace(
+      this.fileSystem === "windows"
+        ? /[<>:"/\\|?*\u0000-\u001f]/g
+        : /[/\u0000]/g,
+      " "
+    );
+  }
+
+  private render(
+    key: TemplateKey,
+    movie: NamedMovie,
+    extraValues: { readonly [placeholder: string]: string }
+  ): string {
+    const values: { readonly [placeholder: string]: string } = {
+      title: movie.title,
+      year: `${movie.year}`,
+      edition: movie.edition ?? "",
+      season: `${movie.episode?.season ?? ""}`.padStart(2, "0"),
+      episode: `${movie.episode?.episode ?? ""}`.padStart(2, "0"),
+      ...extraValues,
+    };
+    const rendered = this.templates[key]
+      .replace(/\{(\w+)\}/g, (_, placeholder: string) =>
+        // before the whole name is sanitized, so that e.g. a slash in a title does not create a folder
+        this.removeIllegalCharacters(values[placeholder] ?? "")
+      )
+      .replace(/\s*(\(\s*\)|\[\s*\])/g, "");
+    return this.sanitize(rendered);
+  }
+}
+
+function getPlaceholders(template: string): readonly string[] {
+  return (template.match(/\{\w+\}/g) ?? []).map((placeholder) =>
+    placeholder.slice(1, -1)
+  );
+}
+
+function transliterate(name: string): string {
+  return (
+    name
+      .replace(
+        new RegExp(`[${Object.keys(transliterations).join("")}]`, "g"),
+        (character) => transliterations[character] ?? character
+      )
+      // the accents are combining marks after the decomposition
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .normalize("NFC")
+  );
+}
+
+function getTemplates(naming: NamingConfig | undefined): {
+  readonly [key in TemplateKey]: string;
+} {
+  return {
+    movieFolder: naming?.movieFolder ?? defaultTemplates.movieFolder,
+    movieFile: naming?.movieFile ?? defaultTemplates.movieFile,
+    seriesFolder: naming?.seriesFolder ?? defaultTemplates.seriesFolder,
+    seasonFolder: naming?.seasonFolder ?? defaultTemplates.seasonFolder,
+    episodeFile: naming?.episodeFile ?? defaultTemplates.episodeFile,
+    subtitleFile: naming?.subtitleFile ?? defaultTemplates.subtitleFile,
+  };
+}
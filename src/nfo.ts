@@ -0,0 +1,268 @@
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { Schema } from "./schema";
+
+export interface NfoConfig {
+  // where to grab fanart.jpg from if the input file has no embedded cover, defaults to a quarter into the movie
+  readonly fanartTimestampSeconds?: number | undefined;
+}
+
+export interface CoverArt {
+  readonly streamIndex: number;
+  // "attachedPicture" is a video stream with the attached_pic disposition, "attachment" is an MKV attachment
+  readonly kind: "attachedPicture" | "attachment";
+  readonly fileExtension: string;
+}
+
+export interface NfoVideoStreamDetails {
+  readonly codecName: string;
+  readonly width: number;
+  readonly height: number;
+  readonly hdrType: string | undefined;
+}
+
+export interface NfoAudioStreamDetails {
+  readonly codecName: string;
+  readonly language: string | undefined;
+  readonly channels: number | undefined;
+}
+
+export interface NfoSubtitleStreamDetails {
+  readonly language: string | undefined;
+}
+
+export interface NfoStreamDetails {
+  readonly video: readonly NfoVideoStreamDetails[];
+  readonly audio: readonly NfoAudioStreamDetails[];
+  readonly subtitle: readonly NfoSubtitleStreamDetails[];
+}
+
+export interface ArtworkResult {
+  readonly successful: boolean;
+  readonly stderr: string;
+}
+
+const coverArtMimeTypeFileExtensions: { [mimeType: string]: string } = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+const attachedPictureCodecFileExtensions: { [codecName: string]: string } = {
+  mjpeg: "jpg",
+  png: "png",
+};
+
+export function getCoverArtFileExtension(
+  mimeType: string | undefined
+): string | undefined {
+  return coverArtMimeTypeFileExtensions[mimeType ?? ""];
+}
+
+export function getAttachedPictureFileExtension(
+  codecName: string
+): string | undefined {
+  return attachedPictureCodecFileExtensions[codecName];
+}
+
+// the format Kodi and Jellyfin read from movie.nfo next to the movie file
+export function formatMovieNfo(
+  title: string,
+  year: number,
+  durationSeconds: number,
+  streamDetails: NfoStreamDetails
+): string {
+  return formatNfo("movie", durationSeconds, streamDetails, [
+    `  <title>${escapeXml(title)}</title>`,
+    `  <year>${year}</year>`,
+  ]);
+}
+
+// the format Kodi and Jellyfin read from the .nfo file with the same name as the episode file
+export function formatEpisodeNfo(
+  showTitle: string,
+  season: number,
+  episode: number,
+  durationSeconds: number,
+  streamDetails: NfoStreamDetails
+): string {
+  return formatNfo("episodedetails", durationSeconds, streamDetails, [
+    `  <showtitle>${escapeXml(showTitle)}</showtitle>`,
+    `  <season>${season}</season>`,
+    `  <episode>${episode}</episode>`,
+  ]);
+}
+
+export function extractCoverArt(
+  ffmpegBinaryPath: string,
+  inputFilePath: string,
+  coverArt: CoverArt,
+  outputFilePath: string
+): Promise<ArtworkResult> {
+  // attachments are not decodable streams, so they are dumped as they are while nothing else is written
+  const ffmpegArguments =
+    coverArt.kind === "attachment"
+      ? [
+          `-dump_attachment:${coverArt.streamIndex}`,
+          outputFilePath,
+          "-i",
+          inputFilePath,
+          "-t",
+          "0",
+          "-f",
+          "null",
+          "-",
+        ]
+      : [
+          "-i",
+          inputFilePath,
+          "-map",
+          `0:${coverArt.streamIndex}`,
+          "-codec",
+          "copy",
+          "-frames:v",
+          "1",
+          outputFilePath,
+        ];
+  return runArtworkFfmpeg(ffmpegBinaryPath, ffmpegArguments, outputFilePath);
+}
+
+export function extractFrame(
+  ffmpegBinaryPath: string,
+  inputFilePath: string,
+  timestampSeconds: number,
+  outputFilePath: string
+): Promise<ArtworkResult> {
+  return runArtworkFfmpeg(
+    ffmpegBinaryPath,
+    [
+      // seeking before the input is fast, and accurate since ffmpeg 2.1
+      "-ss",
+      `${timestampSeconds}`,
+      "-i",
+      inputFilePath,
+      "-map",
+      "0:V:0",
+      "-frames:v",
+      "1",
+      "-q:v",
+      "2",
+      outputFilePath,
+    ],
+    outputFilePath
+  );
+}
+
+export const nfoConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    fanartTimestampSeconds: {
+      type: "number",
+      description:
+        "where to grab fanart.jpg from if the input file has no embedded cover, defaults to a quarter into the movie",
+      minimum: 0,
+    },
+  },
+  additionalProperties: false,
+};
+
+function formatNfo(
+  rootElementName: string,
+  durationSeconds: number,
+  streamDetails: NfoStreamDetails,
+  identifyingLines: readonly string[]
+): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<${rootElementName}>`,
+    ...identifyingLines,
+    `  <runtime>${Math.round(durationSeconds / 60)}</runtime>`,
+    "  <fileinfo>",
+    "    <streamdetails>",
+  ];
+
+  for (const video of streamDetails.video) {
+    lines.push(
+      "      <video>",
+      `        <codec>${escapeXml(video.codecName)}</codec>`,
+      `        <aspect>${(video.width / video.height).toFixed(2)}</aspect>`,
+      `        <width>${video.width}</width>`,
+      `        <height>${video.height}</height>`,
+      `        <durationinseconds>${Math.round(
+        durationSeconds
+      )}</durationinseconds>`,
+      ...(video.hdrType === undefined
+        ? []
+        : [`        <hdrtype>${escapeXml(video.hdrType)}</hdrtype>`]),
+      "      </video>"
+    );
+  }
+
+  for (const audio of streamDetails.audio) {
+    lines.push(
+      "      <audio>",
+      `        <codec>${escapeXml(audio.codecName)}</codec>`,
+      ...(audio.language === undefined
+        ? []
+        : [`        <language>${escapeXml(audio.language)}</language>`]),
+      ...(audio.channels === undefined
+        ? []
+        : [`        <channels>${audio.channels}</channels>`]),
+      "      </audio>"
+    );
+  }
+
+  for (const subtitle of streamDetails.subtitle) {
+    lines.push(
+      "      <subtitle>",
+      ...(subtitle.language === undefined
+        ? []
+        : [`        <language>${escapeXml(subtitle.language)}</language>`]),
+      "      </subtitle>"
+    );
+  }
+
+  lines.push("    </streamdetails>", "  </fileinfo>", `</${rootElementName}>`);
+  return `${lines.join("\n")}\n`;
+}
+
+function runArtworkFfmpeg(
+  ffmpegBinaryPath: string,
+  ffmpegArguments: readonly string[],
+  outputFilePath: string
+): Promise<ArtworkResult> {
+  return new Promise((resolve) => {
+    const ffmpeg = spawn(ffmpegBinaryPath, [
+      "-hide_banner",
+      "-loglevel",
+      "warning",
+      "-nostats",
+      "-y",
+      ...ffmpegArguments,
+    ]);
+
+    let stderr = "";
+    ffmpeg.stderr.setEncoding("utf8");
+    ffmpeg.stderr.on("data", (data) => {
+      stderr += data;
+    });
+
+    ffmpeg.on("error", (error) => {
+      resolve({ successful: false, stderr: error.message });
+    });
+
+    ffmpeg.on("close", (exitCode) => {
+      resolve({
+        successful: exitCode === 0 && existsSync(outputFilePath),
+        stderr,
+      });
+    });
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,90 @@
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { Schema } from "./schema";
+
+export interface SubtitleOcrConfig {
+  readonly binaryPath: string;
+  // {input}, {output}, and {language} are replaced with the extracted image subtitle file path,
+  // the SRT file path to produce, and the ISO 639-2 language code of the subtitle stream
+  readonly arguments: readonly string[];
+}
+
+export interface SubtitleOcrResult {
+  readonly successful: boolean;
+  readonly stderr: string;
+}
+
+export function runSubtitleOcr(
+  subtitleOcr: SubtitleOcrConfig,
+  inputFilePath: string,
+  outputFilePath: string,
+  language: string,
+  abortSignal: AbortSignal | undefined
+): Promise<SubtitleOcrResult> {
+  const ocrArguments = subtitleOcr.arguments.map((argument) =>
+    argument
+      .replace(/\{input\}/g, inputFilePath)
+      .replace(/\{output\}/g, outputFilePath)
+      .replace(/\{language\}/g, language)
+  );
+
+  if (abortSignal?.aborted) {
+    return Promise.resolve({ successful: false, stderr: "Aborted\n" });
+  }
+
+  return new Promise((resolve) => {
+    const ocr = spawn(subtitleOcr.binaryPath, ocrArguments);
+    // OCR of a whole subtitle stream can take minutes
+    const onAbort = () => {
+      ocr.kill();
+    };
+    abortSignal?.addEventListener("abort", onAbort);
+
+    let stderr = "";
+    ocr.stderr.setEncoding("utf8");
+    ocr.stderr.on("data", (data) => {
+      stderr += data;
+    });
+
+    ocr.on("error", (error) => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve({ successful: false, stderr: error.message });
+    });
+
+    ocr.on("close", (exitCode) => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      if (abortSignal?.aborted) {
+        stderr += "Aborted\n";
+      }
+      resolve({
+        successful:
+          exitCode === 0 && !abortSignal?.aborted && existsSync(outputFilePath),
+        stderr,
+      });
+    });
+  });
+}
+
+export const subtitleOcrConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    binaryPath: { type: "string", format: "path" },
+    arguments: {
+      type: "array",
+      description:
+        "{input}, {output}, and {language} are replaced with the image subtitle file, the SRT file to produce, and the ISO 639-2 language code",
+      items: { type: "string" },
+    },
+  },
+  required: ["binaryPath", "arguments"],
+  additionalProperties: false,
+};
+
+export function validateSubtitleOcrConfig(
+  subtitleOcr: SubtitleOcrConfig | undefined
+): readonly string[] {
+  if (subtitleOcr !== undefined && !existsSync(subtitleOcr.binaryPath)) {
+    return ["config.subtitleOcr.binaryPath does not exist"];
+  }
+  return [];
+}
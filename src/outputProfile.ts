@@ -0,0 +1,145 @@
+import {
+  AudioProcessingConfig,
+  audioProcessingConfigSchema,
+} from "./audioProcessing";
+import { Schema } from "./schema";
+
+export interface OutputProfile {
+  readonly audioCodec: string;
+  readonly audioBitrate?: string;
+  readonly audioChannels?: number;
+  readonly audioFilter?: string;
+  readonly audioProcessing?: AudioProcessingConfig;
+  readonly keepOriginalAudioStreams: boolean;
+}
+
+export interface OutputProfiles {
+  readonly [name: string]: OutputProfile;
+}
+
+export interface NamedOutputProfile {
+  readonly name: string;
+  readonly profile: OutputProfile;
+}
+
+export const defaultOutputProfileName = "aac-stereo";
+
+const builtInOutputProfiles: OutputProfiles = {
+  [defaultOutputProfileName]: {
+    audioCodec: "aac",
+    audioBitrate: "256k",
+    audioChannels: 2,
+    keepOriginalAudioStreams: true,
+  },
+};
+
+export function resolveOutputProfile(
+  outputProfiles: OutputProfiles | undefined,
+  defaultProfileName: string | undefined,
+  movieProfileName: string | undefined
+): NamedOutputProfile {
+  const name =
+    movieProfileName ?? defaultProfileName ?? defaultOutputProfileName;
+  const profile = { ...builtInOutputProfiles, ...outputProfiles }[name];
+  if (profile === undefined) {
+    throw new Error(`Output profile "${name}" does not exist`);
+  }
+  return { name, profile };
+}
+
+export function getChannelLayoutName(channels: number): string {
+  switch (channels) {
+    case 1:
+      return "mono";
+    case 2:
+      return "stereo";
+    case 6:
+      return "5.1";
+    case 8:
+      return "7.1";
+    default:
+      return `${channels} channels`;
+  }
+}
+
+// e.g. 6 for "5.1(side)", undefined for layouts that do not tell the channel count
+export function getChannelCount(channelLayout: string): number | undefined {
+  switch (channelLayout) {
+    case "mono":
+      return 1;
+    case "stereo":
+      return 2;
+  }
+  const match = /^(\d+)\.(\d+)/.exec(channelLayout);
+  if (match !== null) {
+    return Number.parseInt(match[1]!, 10) + Number.parseInt(match[2]!, 10);
+  }
+  const channelsMatch = /^(\d+) channels$/.exec(channelLayout);
+  return channelsMatch === null
+    ? undefined
+    : Number.parseInt(channelsMatch[1]!, 10);
+}
+
+export const outputProfilesSchema: Schema = {
+  type: "object",
+  additionalProperties: {
+    type: "object",
+    properties: {
+      audioCodec: { type: "string", minLength: 1 },
+      audioBitrate: { type: "string" },
+      audioChannels: { type: "integer", minimum: 1 },
+      audioFilter: { type: "string" },
+      audioProcessing: audioProcessingConfigSchema,
+      keepOriginalAudioStreams: { type: "boolean" },
+    },
+    required: ["audioCodec", "keepOriginalAudioStreams"],
+    additionalProperties: false,
+  },
+};
+
+export function validateOutputProfiles(
+  outputProfiles: OutputProfiles | undefined,
+  defaultProfileName: string | undefined,
+  movieProfileNames: readonly (string | undefined)[],
+  seriesProfileNames: readonly (string | undefined)[]
+): readonly string[] {
+  const problems: string[] = [];
+
+  for (const [name, profile] of Object.entries(outputProfiles ?? {})) {
+    // a passthrough stream cannot be resampled, remixed, or filtered
+    if (
+      profile.audioCodec === "copy" &&
+      (profile.audioBitrate !== undefined ||
+        profile.audioChannels !== undefined ||
+        profile.audioFilter !== undefined ||
+        profile.audioProcessing !== undefined)
+    ) {
+      problems.push(
+        `config.outputProfiles.${name} cannot set audioBitrate, audioChannels, audioFilter, or audioProcessing when audioCodec is copy`
+      );
+    }
+  }
+
+  const profileNames = Object.keys({
+    ...builtInOutputProfiles,
+    ...outputProfiles,
+  });
+  const isUnknown = (profileName: string | undefined): boolean =>
+    profileName !== undefined && !profileNames.includes(profileName);
+
+  if (isUnknown(defaultProfileName)) {
+    problems.push("config.defaultOutputProfile does not exist");
+  }
+  movieProfileNames.forEach((movieProfileName, i) => {
+    if (isUnknown(movieProfileName)) {
+      problems.push(`config.movies[${i}].outputProfile does not exist`);
+    }
+  });
+  seriesProfileNames.forEach((seriesProfileName, i) => {
+    if (isUnknown(seriesProfileName)) {
+      problems.push(`config.series[${i}].outputProfile does not exist`);
+    }
+  });
+
+  return problems;
+}
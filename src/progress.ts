@@ -0,0 +1,186 @@
+import { stdout } from "node:process";
+import { clearScreenDown, moveCursor } from "node:readline";
+import type { Movie } from "./movie";
+
+export class ProgressJob {
+  private progress = 0;
+  private speed: number | undefined;
+
+  public constructor(
+    // the progress is reported for the movie, as the display names are not unique
+    public readonly movie: Movie,
+    public readonly name: string,
+    public readonly durationSeconds: number,
+    private readonly progressView: ProgressView
+  ) {}
+
+  // progress is normalized to [0, 1]
+  public update(progress: number, speed: number | undefined): void {
+    const previousRoundedProgressPercentage = getRoundedProgressPercentage(
+      this.progress
+    );
+    this.progress = Math.min(Math.max(progress, 0), 1);
+    this.speed = speed;
+    if (
+      getRoundedProgressPercentage(this.progress) !==
+      previousRoundedProgressPercentage
+    ) {
+      this.progressView.updateJob(this);
+    }
+  }
+
+  public finish(status: string): void {
+    this.progressView.finishJob(this, status);
+  }
+
+  public getProgress(): number {
+    return this.progress;
+  }
+
+  public getProcessedSeconds(): number {
+    return this.progress * this.durationSeconds;
+  }
+
+  public getSpeed(): number | undefined {
+    return this.speed;
+  }
+
+  public toString(): string {
+    const speed = this.speed === undefined ? "N/A" : `${this.speed}x`;
+    return `${this.name} [${getRoundedProgressPercentage(
+      this.progress
+    )}% at ${speed}, ETA ${formatEta(
+      this.durationSeconds - this.getProcessedSeconds(),
+      this.speed
+    )}]`;
+  }
+}
+
+export class ProgressView {
+  private readonly runningJobs: ProgressJob[] = [];
+  private finishedJobsCount = 0;
+  private finishedJobsDurationSeconds = 0;
+  private renderedLinesCount = 0;
+
+  public constructor(
+    private readonly allJobsCount: number,
+    // the progress of the batch is weighted by the duration of the movies
+    private readonly allJobsDurationSeconds: number,
+    // e.g. to push the progress to the clients of the HTTP server
+    private readonly onJobUpdate: ((job: ProgressJob) => void) | undefined
+  ) {}
+
+  public startJob(
+    movie: Movie,
+    name: string,
+    durationSeconds: number
+  ): ProgressJob {
+    const job = new ProgressJob(movie, name, durationSeconds, this);
+    this.runningJobs.push(job);
+    this.render();
+    return job;
+  }
+
+  public updateJob(job: ProgressJob): void {
+    this.onJobUpdate?.(job);
+    this.render();
+  }
+
+  public finishJob(job: ProgressJob, status: string): void {
+    const jobIndex = this.runningJobs.indexOf(job);
+    if (jobIndex === -1) {
+      throw new Error("AssertError: job is not running");
+    }
+    this.runningJobs.splice(jobIndex, 1);
+    ++this.finishedJobsCount;
+    this.finishedJobsDurationSeconds += job.durationSeconds;
+    this.log(`${this.getCounter()} ${job.name} [${status}]`);
+  }
+
+  // print a message without it being overwritten by the next render
+  public log(message: string): void {
+    this.clear();
+    console.log(message);
+    if (stdout.isTTY) {
+      this.render();
+    }
+  }
+
+  public render(): void {
+    if (!stdout.isTTY) {
+      // there is no way to redraw in place, so print the combined progress as a single line
+      if (this.runningJobs.length > 0) {
+        console.log(
+          `${this.getBatchSummary()} ${this.runningJobs.join(" | ")}`
+        );
+      }
+      return;
+    }
+
+    this.clear();
+    const lines = [
+      this.getBatchSummary(),
+      ...this.runningJobs.map((job) => `  ${job.toString()}`),
+    ];
+    for (const line of lines) {
+      console.log(line);
+    }
+    this.renderedLinesCount = lines.length;
+  }
+
+  private clear(): void {
+    if (!stdout.isTTY || this.renderedLinesCount === 0) {
+      return;
+    }
+    moveCursor(stdout, 0, -this.renderedLinesCount);
+    clearScreenDown(stdout);
+    this.renderedLinesCount = 0;
+  }
+
+  private getCounter(): string {
+    return `[${this.finishedJobsCount} / ${this.allJobsCount}]`;
+  }
+
+  private getBatchSummary(): string {
+    const processedSeconds =
+      this.finishedJobsDurationSeconds +
+      this.runningJobs.reduce((sum, job) => sum + job.getProcessedSeconds(), 0);
+
+    // the running jobs process the rest of the batch at their combined speed
+    const speeds = this.runningJobs.map((job) => job.getSpeed());
+    const combinedSpeed = speeds.some((speed) => speed === undefined)
+      ? undefined
+      : speeds.reduce((sum: number, speed) => sum + speed!, 0);
+
+    const progress =
+      this.allJobsDurationSeconds === 0
+        ? 0
+        : processedSeconds / this.allJobsDurationSeconds;
+    return `${this.getCounter()} [${getRoundedProgressPercentage(
+      progress
+    )}%, ETA ${formatEta(
+      this.allJobsDurationSeconds - processedSeconds,
+      combinedSpeed
+    )}]`;
+  }
+}
+
+function getRoundedProgressPercentage(normalizedProgress: number): string {
+  return (normalizedProgress * 100).toFixed(2);
+}
+
+function formatEta(
+  remainingMediaSeconds: number,
+  speed: number | undefined
+): string {
+  if (speed === undefined || speed <= 0) {
+    return "N/A";
+  }
+  const remainingSeconds = Math.round(remainingMediaSeconds / speed);
+  const hours = Math.floor(remainingSeconds / 3600);
+  const minutes = Math.floor(remainingSeconds / 60) % 60;
+  const seconds = remainingSeconds % 60;
+  return [hours, minutes, seconds]
+    .map((part) => `${part}`.padStart(2, "0"))
+    .join(":");
+}
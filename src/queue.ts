@@ -0,0 +1,347 @@
+import { BatchObserver } from "./batch";
+import { ConversionInfo, IMovie, Movie } from "./movie";
+import { FileNaming } from "./naming";
+import { MovieReport, MovieReportStatus } from "./report";
+
+export type QueueEntryStatus =
+  | "waiting"
+  | "pending"
+  | "converting"
+  | "cancelled"
+  | MovieReportStatus;
+
+export interface QueueEntrySummary {
+  readonly id: number;
+  readonly title: string;
+  readonly year: number;
+  readonly inputFilePath: string;
+  readonly status: QueueEntryStatus;
+  // why the movie is pending, or why a waiting movie was postponed
+  readonly reason: string | undefined;
+  // normalized to [0, 1]
+  readonly progress: number;
+  readonly speed: number | undefined;
+}
+
+export interface QueueEntryDetails extends QueueEntrySummary {
+  readonly conversionInfo: ConversionInfo | undefined;
+  readonly conversionResult:
+    | { readonly successful: boolean; readonly stderr: string }
+    | undefined;
+  readonly conversionReport: MovieReport | undefined;
+}
+
+export type QueueEvent =
+  | { readonly type: "entry"; readonly entry: QueueEntrySummary }
+  | { readonly type: "removed"; readonly id: number }
+  | {
+      readonly type: "unidentifiedFiles";
+      readonly filePaths: readonly string[];
+    };
+
+interface QueueEntry {
+  readonly id: number;
+  readonly movie: Movie;
+  readonly abortController: AbortController;
+  status: QueueEntryStatus;
+  reason: string | undefined;
+  progress: number;
+  speed: number | undefined;
+  hasConversionInfo: boolean;
+  cancelled: boolean;
+}
+
+// the finished movies are kept for the HTTP API, but not forever in a long running watch mode
+const maxFinishedEntryCount = 100;
+
+const activeStatuses: readonly QueueEntryStatus[] = [
+  "waiting",
+  "pending",
+  "converting",
+];
+
+// the movies of the watch mode, from their discovery until their conversion finishes
+export class ConversionQueue implements BatchObserver {
+  private readonly entries: QueueEntry[] = [];
+  private readonly listeners: ((event: QueueEvent) => void)[] = [];
+  private unidentifiedFilePaths: readonly string[] = [];
+  private nextId = 1;
+
+  public constructor(
+    // called when a movie starts waiting, e.g. to wake up the watch loop
+    private readonly onWaiting: () => void,
+    private readonly naming: FileNaming
+  ) {}
+
+  public subscribe(listener: (event: QueueEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const listenerIndex = this.listeners.indexOf(listener);
+      if (listenerIndex !== -1) {
+        this.listeners.splice(listenerIndex, 1);
+      }
+    };
+  }
+
+  public enqueue(iMovie: IMovie): QueueEntrySummary {
+    const movie = Movie.fromIMovie(iMovie, this.naming);
+    if (!movie.hasValidInputFilePath()) {
+      throw new Error("movie.inputFilePath does not exist");
+    }
+    if (!movie.hasValidTitle()) {
+      throw new Error("movie.title is invalid");
+    }
+    if (!movie.hasValidYear()) {
+      throw new Error("movie.year is invalid");
+    }
+    if (!movie.hasValidEpisode()) {
+      throw new Error("movie.episode is invalid");
+    }
+    if (!movie.hasValidExternalSubtitles()) {
+      throw new Error("movie.externalSubtitles are invalid or do not exist");
+    }
+    if (!movie.hasValidOutputName()) {
+      throw new Error(
+        "movie would have an empty output name, it has no characters that are allowed in file names"
+      );
+    }
+    if (this.isActive(movie.inputFilePath)) {
+      throw new Error(`${movie.inputFilePath} is already queued`);
+    }
+
+    const entry: QueueEntry = {
+      id: this.nextId++,
+      movie,
+      abortController: new AbortController(),
+      status: "waiting",
+      reason: undefined,
+      progress: 0,
+      speed: undefined,
+      hasConversionInfo: false,
+      cancelled: false,
+    };
+    this.entries.push(entry);
+    this.emitEntry(entry);
+    this.onWaiting();
+    return getSummary(entry);
+  }
+
+  // whether the input file is waiting, pending, or being converted
+  public isActive(inputFilePath: string): boolean {
+    return this.entries.some(
+      (entry) =>
+        entry.movie.inputFilePath === inputFilePath &&
+        activeStatuses.includes(entry.status)
+    );
+  }
+
+  // the waiting and the pending entries of a removed input file are of no use anymore
+  public removeInputFile(inputFilePath: string): void {
+    for (const entry of [...this.entries]) {
+      if (
+        entry.movie.inputFilePath === inputFilePath &&
+        (entry.status === "waiting" || entry.status === "pending")
+      ) {
+        this.removeEntry(entry);
+      }
+    }
+  }
+
+  public getWaitingMovies(): readonly Movie[] {
+    return this.entries
+      .filter((entry) => entry.status === "waiting")
+      .map((entry) => entry.movie);
+  }
+
+  public setConversionInfoCollected(movie: Movie): void {
+    this.getEntryOfMovie(movie).hasConversionInfo = true;
+  }
+
+  public park(movie: Movie, reason: string): void {
+    const entry = this.getEntryOfMovie(movie);
+    entry.status = "pending";
+    entry.reason = reason;
+    this.emitEntry(entry);
+  }
+
+  // called after the stream selection of a pending movie is answered
+  public requeue(id: number): QueueEntrySummary {
+    const entry = this.getEntry(id);
+    if (entry.status !== "pending") {
+      throw new Error(`Movie ${id} is not pending`);
+    }
+    entry.status = "waiting";
+    entry.reason = undefined;
+    this.emitEntry(entry);
+    this.onWaiting();
+    return getSummary(entry);
+  }
+
+  // waiting and pending movies are cancelled at once, running conversions are aborted
+  public cancel(id: number): QueueEntrySummary {
+    const entry = this.getEntry(id);
+    if (!activeStatuses.includes(entry.status)) {
+      throw new Error(`Movie ${id} is not queued anymore`);
+    }
+    entry.cancelled = true;
+    entry.abortController.abort();
+    if (entry.status !== "converting") {
+      entry.status = "cancelled";
+      this.emitEntry(entry);
+      this.pruneFinishedEntries();
+    }
+    return getSummary(entry);
+  }
+
+  public abortAll(signal: NodeJS.Signals): void {
+    for (const entry of this.entries) {
+      if (entry.status === "converting") {
+        entry.abortController.abort(signal);
+      }
+    }
+  }
+
+  public hasEntry(id: number): boolean {
+    return this.entries.some((entry) => entry.id === id);
+  }
+
+  public getMovie(id: number): Movie {
+    return this.getEntry(id).movie;
+  }
+
+  public getSummaries(): readonly QueueEntrySummary[] {
+    return this.entries.map((entry) => getSummary(entry));
+  }
+
+  public getDetails(id: number): QueueEntryDetails {
+    const entry = this.getEntry(id);
+    const isFinished =
+      !activeStatuses.includes(entry.status) && entry.status !== "cancelled";
+    return {
+      ...getSummary(entry),
+      conversionInfo: entry.hasConversionInfo
+        ? entry.movie.getConversionInfo()
+        : undefined,
+      // a dry run has a report, but no result
+      conversionResult:
+        isFinished && entry.status !== "dry run"
+          ? entry.movie.getConversionResult()
+          : undefined,
+      conversionReport: isFinished
+        ? entry.movie.getConversionReport()
+        : undefined,
+    };
+  }
+
+  public getPendingSummaries(): readonly QueueEntrySummary[] {
+    return this.getSummaries().filter((entry) => entry.status === "pending");
+  }
+
+  public setUnidentifiedFilePaths(filePaths: readonly string[]): void {
+    if (filePaths.join("\n") === this.unidentifiedFilePaths.join("\n")) {
+      return;
+    }
+    this.unidentifiedFilePaths = filePaths;
+    this.emit({ type: "unidentifiedFiles", filePaths });
+  }
+
+  // the video files whose title and year cannot be determined from their path
+  public getUnidentifiedFilePaths(): readonly string[] {
+    return this.unidentifiedFilePaths;
+  }
+
+  public getAbortSignal(movie: Movie): AbortSignal {
+    return this.getEntryOfMovie(movie).abortController.signal;
+  }
+
+  public onStarted(movie: Movie): void {
+    const entry = this.getEntryOfMovie(movie);
+    entry.status = "converting";
+    entry.reason = undefined;
+    this.emitEntry(entry);
+  }
+
+  public onProgress(
+    movie: Movie,
+    progress: number,
+    speed: number | undefined
+  ): void {
+    const entry = this.getEntryOfMovie(movie);
+    entry.progress = progress;
+    entry.speed = speed;
+    this.emitEntry(entry);
+  }
+
+  // the movie keeps waiting, so the next poll retries it, e.g. once there is enough disk space
+  public onSkipped(movie: Movie, reason: string): void {
+    const entry = this.getEntryOfMovie(movie);
+    entry.status = "waiting";
+    entry.reason = reason;
+    this.emitEntry(entry);
+  }
+
+  public onFinished(movie: Movie): void {
+    const entry = this.getEntryOfMovie(movie);
+    entry.status = entry.cancelled
+      ? "cancelled"
+      : movie.getConversionReport().status;
+    this.emitEntry(entry);
+    this.pruneFinishedEntries();
+  }
+
+  private getEntry(id: number): QueueEntry {
+    const entry = this.entries.find((e) => e.id === id);
+    if (entry === undefined) {
+      throw new Error(`Movie ${id} does not exist`);
+    }
+    return entry;
+  }
+
+  private getEntryOfMovie(movie: Movie): QueueEntry {
+    const entry = this.entries.find((e) => e.movie === movie);
+    if (entry === undefined) {
+      throw new Error("AssertError: movie is not queued");
+    }
+    return entry;
+  }
+
+  private removeEntry(entry: QueueEntry): void {
+    this.entries.splice(this.entries.indexOf(entry), 1);
+    this.emit({ type: "removed", id: entry.id });
+  }
+
+  private pruneFinishedEntries(): void {
+    const finishedEntries = this.entries.filter(
+      (entry) => !activeStatuses.includes(entry.status)
+    );
+    for (const entry of finishedEntries.slice(
+      0,
+      Math.max(finishedEntries.length - maxFinishedEntryCount, 0)
+    )) {
+      this.removeEntry(entry);
+    }
+  }
+
+  private emitEntry(entry: QueueEntry): void {
+    this.emit({ type: "entry", entry: getSummary(entry) });
+  }
+
+  private emit(event: QueueEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+function getSummary(entry: QueueEntry): QueueEntrySummary {
+  return {
+    id: entry.id,
+    title: entry.movie.title,
+    year: entry.movie.year,
+    inputFilePath: entry.movie.inputFilePath,
+    status: entry.status,
+    reason: entry.reason,
+    progress: entry.progress,
+    speed: entry.speed,
+  };
+}
@@ -0,0 +1,194 @@
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export interface ReportedStream {
+  readonly index: number;
+  readonly codecName: string;
+  readonly language: string | undefined;
+  readonly title: string | undefined;
+  readonly channelLayout?: string | undefined;
+  // set if the stream comes from a separate subtitle file
+  readonly externalFilePath?: string | undefined;
+}
+
+export interface ReportedFile {
+  readonly path: string;
+  // undefined if the file does not exist, e.g. after a dry run
+  readonly sizeBytes: number | undefined;
+}
+
+export type MovieReportStatus = "succeeded" | "failed" | "skipped" | "dry run";
+
+export interface MovieReport {
+  readonly name: string;
+  readonly status: MovieReportStatus;
+  readonly inputFile: ReportedFile;
+  readonly outputFiles: readonly ReportedFile[];
+  readonly selectedAudioStream: ReportedStream;
+  readonly selectedSubtitleStream: ReportedStream | null;
+  readonly ffmpegCommandLine: string;
+  readonly durationSeconds: number;
+  readonly wallClockSeconds: number;
+  // how many seconds of media were processed in one second, undefined if nothing was processed
+  readonly averageSpeed: number | undefined;
+  // the fallbacks that were applied after known ffmpeg failures
+  readonly fallbacks: readonly string[];
+  readonly stderrExcerpt: string;
+}
+
+export interface BatchReport {
+  readonly startedAt: string;
+  readonly finishedAt: string;
+  readonly movies: readonly MovieReport[];
+}
+
+// the end of the stderr is where ffmpeg explains why it failed
+const stderrExcerptLineCount = 20;
+
+export function getStderrExcerpt(stderr: string): string {
+  return stderr.trimEnd().split("\n").slice(-stderrExcerptLineCount).join("\n");
+}
+
+export function formatCommandLine(
+  binaryPath: string,
+  binaryArguments: readonly string[]
+): string {
+  return [binaryPath, ...binaryArguments]
+    .map((argument) =>
+      /^[\w@%+=:,./-]+$/.test(argument)
+        ? argument
+        : `'${argument.replace(/'/g, `'\\''`)}'`
+    )
+    .join(" ");
+}
+
+// writes the report both as JSON and as Markdown, and returns the paths of the written files
+export function writeBatchReport(
+  outputFolderPath: string,
+  report: BatchReport
+): readonly string[] {
+  const reportFileBaseName = `tvconvert-report-${report.startedAt.replace(
+    /[:.]/g,
+    "-"
+  )}`;
+  const jsonReportFilePath = join(
+    outputFolderPath,
+    `${reportFileBaseName}.json`
+  );
+  const markdownReportFilePath = join(
+    outputFolderPath,
+    `${reportFileBaseName}.md`
+  );
+
+  writeFileSync(jsonReportFilePath, `${JSON.stringify(report, null, 2)}\n`);
+  writeFileSync(markdownReportFilePath, formatMarkdownReport(report));
+
+  return [jsonReportFilePath, markdownReportFilePath];
+}
+
+export function formatSize(sizeBytes: number | undefined): string {
+  return sizeBytes === undefined
+    ? "missing"
+    : `${(sizeBytes / 1024 / 1024).toFixed(1)} MiB`;
+}
+
+function formatMarkdownReport(report: BatchReport): string {
+  const lines = [
+    "# tvconvert report",
+    "",
+    `Started at ${report.startedAt}, finished at ${report.finishedAt}.`,
+    "",
+    "| Movie | Status | Duration | Wall clock | Speed | Output / input size |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...report.movies.map(
+      (movie) =>
+        `| ${escapeMarkdownTableCell(movie.name)} | ${
+          movie.status
+        } | ${formatSeconds(movie.durationSeconds)} | ${formatSeconds(
+          movie.wallClockSeconds
+        )} | ${formatSpeed(movie.averageSpeed)} | ${formatSizeRatio(movie)} |`
+    ),
+  ];
+
+  for (const movie of report.movies) {
+    lines.push(
+      "",
+      `## ${movie.name}`,
+      "",
+      `- Status: ${movie.status}`,
+      `- Input: \`${movie.inputFile.path}\` (${formatSize(
+        movie.inputFile.sizeBytes
+      )})`,
+      ...movie.outputFiles.map(
+        (outputFile) =>
+          `- Output: \`${outputFile.path}\` (${formatSize(
+            outputFile.sizeBytes
+          )})`
+      ),
+      `- Audio: ${formatStream(movie.selectedAudioStream)}`,
+      `- Subtitle: ${
+        movie.selectedSubtitleStream === null
+          ? "none"
+          : formatStream(movie.selectedSubtitleStream)
+      }`,
+      ...(movie.fallbacks.length > 0
+        ? [`- Fallbacks: ${movie.fallbacks.join(", ")}`]
+        : []),
+      "",
+      "```sh",
+      movie.ffmpegCommandLine,
+      "```"
+    );
+    if (movie.stderrExcerpt !== "") {
+      lines.push("", "```", movie.stderrExcerpt, "```");
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function formatStream(stream: ReportedStream): string {
+  const ret = [
+    `#${stream.index}`,
+    stream.language ?? "???",
+    stream.codecName,
+    ...(stream.channelLayout === undefined ? [] : [stream.channelLayout]),
+    ...(stream.title === undefined ? [] : [`[${stream.title}]`]),
+  ].join(" ");
+  return stream.externalFilePath === undefined
+    ? ret
+    : `${ret} from \`${stream.externalFilePath}\``;
+}
+
+function formatSeconds(seconds: number): string {
+  const roundedSeconds = Math.round(seconds);
+  const hours = Math.floor(roundedSeconds / 3600);
+  const minutes = Math.floor(roundedSeconds / 60) % 60;
+  return [hours, minutes, roundedSeconds % 60]
+    .map((part) => `${part}`.padStart(2, "0"))
+    .join(":");
+}
+
+function formatSpeed(speed: number | undefined): string {
+  return speed === undefined ? "N/A" : `${speed.toFixed(2)}x`;
+}
+
+function formatSizeRatio(movie: MovieReport): string {
+  const inputSizeBytes = movie.inputFile.sizeBytes;
+  if (
+    inputSizeBytes === undefined ||
+    inputSizeBytes === 0 ||
+    movie.outputFiles.some((outputFile) => outputFile.sizeBytes === undefined)
+  ) {
+    return "N/A";
+  }
+  const outputSizeBytes = movie.outputFiles.reduce(
+    (sum, outputFile) => sum + outputFile.sizeBytes!,
+    0
+  );
+  return `${((outputSizeBytes / inputSizeBytes) * 100).toFixed(1)}%`;
+}
+
+function escapeMarkdownTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
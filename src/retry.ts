@@ -0,0 +1,107 @@
+// argument tweaks for known ffmpeg failures, which are added one by one until the conversion succeeds
+export type ConversionFallback =
+  // -fflags +genpts for sources with missing or non-monotonic timestamps
+  | { readonly kind: "generatePts" }
+  // -max_muxing_queue_size for streams with sparse packets, e.g. subtitles far from the audio and the video
+  | { readonly kind: "increaseMuxingQueueSize" }
+  // leave out a retained stream whose codec the MKV muxer does not support, e.g. "0:4"
+  | { readonly kind: "dropStream"; readonly streamSpecifier: string }
+  // convert the retained text-based subtitle streams to SRT instead of copying them
+  | { readonly kind: "reencodeSubtitles" };
+
+// an output stream of the MKV output, in the order they are mapped
+export interface FallbackOutputStream {
+  readonly streamSpecifier: string;
+  // the video stream and the transcoded audio stream are never dropped
+  readonly droppable: boolean;
+  readonly isTextSubtitle: boolean;
+}
+
+export const muxingQueueSize = 9999;
+
+const timestampFailurePatterns = [
+  /non[- ]monoton(ous|ically increasing) dts/i,
+  /timestamps are unset in a packet/i,
+  /pts has no value/i,
+];
+
+const muxingQueueFailurePattern =
+  /too many packets buffered for output stream/i;
+
+const unsupportedCodecFailurePattern =
+  /could not find tag for codec \S+ in stream #(\d+)/i;
+
+// returns undefined if the failure is unknown, or if there is no fallback for it that is not applied yet
+export function getFallbackForFailure(
+  stderr: string,
+  mkvOutputStreams: readonly FallbackOutputStream[],
+  appliedFallbacks: readonly ConversionFallback[]
+): ConversionFallback | undefined {
+  const candidates: ConversionFallback[] = [];
+
+  const unsupportedCodecMatch = unsupportedCodecFailurePattern.exec(stderr);
+  if (unsupportedCodecMatch !== null) {
+    const outputStream = mkvOutputStreams[Number(unsupportedCodecMatch[1])];
+    if (outputStream?.isTextSubtitle === true) {
+      candidates.push({ kind: "reencodeSubtitles" });
+    }
+    if (outputStream?.droppable === true) {
+      candidates.push({
+        kind: "dropStream",
+        streamSpecifier: outputStream.streamSpecifier,
+      });
+    }
+  }
+
+  if (muxingQueueFailurePattern.test(stderr)) {
+    candidates.push({ kind: "increaseMuxingQueueSize" });
+  }
+
+  if (timestampFailurePatterns.some((pattern) => pattern.test(stderr))) {
+    candidates.push({ kind: "generatePts" });
+  }
+
+  return candidates.find(
+    (candidate) =>
+      !appliedFallbacks.some((fallback) => isSameFallback(fallback, candidate))
+  );
+}
+
+export function isStreamDropped(
+  streamSpecifier: string,
+  fallbacks: readonly ConversionFallback[]
+): boolean {
+  return fallbacks.some(
+    (fallback) =>
+      fallback.kind === "dropStream" &&
+      fallback.streamSpecifier === streamSpecifier
+  );
+}
+
+export function hasFallback(
+  kind: ConversionFallback["kind"],
+  fallbacks: readonly ConversionFallback[]
+): boolean {
+  return fallbacks.some((fallback) => fallback.kind === kind);
+}
+
+export function describeFallback(fallback: ConversionFallback): string {
+  switch (fallback.kind) {
+    case "generatePts":
+      return "-fflags +genpts";
+    case "increaseMuxingQueueSize":
+      return `-max_muxing_queue_size ${muxingQueueSize}`;
+    case "dropStream":
+      return `dropping stream ${fallback.streamSpecifier}`;
+    case "reencodeSubtitles":
+      return "re-encoding subtitles to SRT";
+  }
+}
+
+function isSameFallback(a: ConversionFallback, b: ConversionFallback): boolean {
+  return (
+    a.kind === b.kind &&
+    (a.kind !== "dropStream" ||
+      (b.kind === "dropStream" && a.streamSpecifier === b.streamSpecifier))
+  );
+}
@@ -0,0 +1,174 @@
+import { readdirSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { IMovie, Movie } from "./movie";
+import { EpisodeNumber, ISeriesEpisode, isValidEpisodeNumber } from "./series";
+
+export interface ScanResult {
+  readonly movies: readonly IMovie[];
+  readonly unparseableFilePaths: readonly string[];
+}
+
+export interface EpisodeScanResult {
+  readonly episodes: readonly ISeriesEpisode[];
+  readonly unparseableFilePaths: readonly string[];
+}
+
+const videoFileExtensions = [
+  ".avi",
+  ".m2ts",
+  ".m4v",
+  ".mkv",
+  ".mov",
+  ".mp4",
+  ".mpeg",
+  ".mpg",
+  ".ts",
+  ".webm",
+  ".wmv",
+];
+
+// folder and file name suffixes used by Plex, Jellyfin, and Kodi for non-feature videos
+const extrasNames = [
+  "behind the scenes",
+  "behindthescenes",
+  "bonus",
+  "deleted scenes",
+  "deleted",
+  "extra",
+  "extras",
+  "featurette",
+  "featurettes",
+  "interview",
+  "interviews",
+  "other",
+  "others",
+  "scene",
+  "scenes",
+  "short",
+  "shorts",
+  "trailer",
+  "trailers",
+];
+
+export function scanFolderForMovies(folderPath: string): ScanResult {
+  const movies: IMovie[] = [];
+  const unparseableFilePaths: string[] = [];
+
+  for (const filePath of findVideoFiles(folderPath)) {
+    const titleAndYear =
+      parseReleaseName(basename(filePath, extname(filePath))) ??
+      parseReleaseName(basename(dirname(filePath)));
+    if (titleAndYear === undefined) {
+      unparseableFilePaths.push(filePath);
+      continue;
+    }
+    movies.push({ ...titleAndYear, inputFilePath: filePath });
+  }
+
+  return { movies, unparseableFilePaths };
+}
+
+// the episodes of a series, whose season and episode numbers are in their file names
+export function scanFolderForEpisodes(folderPath: string): EpisodeScanResult {
+  const episodes: ISeriesEpisode[] = [];
+  const unparseableFilePaths: string[] = [];
+
+  for (const filePath of findVideoFiles(folderPath)) {
+    const episodeNumber = parseEpisodeNumber(
+      basename(filePath, extname(filePath))
+    );
+    if (episodeNumber === undefined) {
+      unparseableFilePaths.push(filePath);
+      continue;
+    }
+    episodes.push({ ...episodeNumber, inputFilePath: filePath });
+  }
+
+  return { episodes, unparseableFilePaths };
+}
+
+// e.g. "Show.S01E03.1080p" or "Show 1x03", for multi-episode files like S01E03E04 the first episode is returned
+export function parseEpisodeNumber(
+  fileName: string
+): EpisodeNumber | undefined {
+  const match =
+    /(?:^|[^a-z0-9])s(\d{1,2})[\s._-]?e(\d{1,3})(?![0-9])/i.exec(fileName) ??
+    /(?:^|[^a-z0-9])(\d{1,2})x(\d{2,3})(?![0-9])/i.exec(fileName);
+  if (match === null) {
+    return undefined;
+  }
+
+  const episodeNumber = {
+    season: Number.parseInt(match[1]!, 10),
+    episode: Number.parseInt(match[2]!, 10),
+  };
+  return isValidEpisodeNumber(episodeNumber) ? episodeNumber : undefined;
+}
+
+export function parseReleaseName(
+  releaseName: string
+): Pick<IMovie, "title" | "year"> | undefined {
+  // the year is the last standalone 4-digit number that yields a valid year,
+  // so that titles like "1917" or "2001: A Space Odyssey" are kept intact
+  const yearCandidateRegExp = /[\s._(\[-]((?:18|19|20)\d{2})(?=[\s._)\]-]|$)/g;
+
+  let ret: Pick<IMovie, "title" | "year"> | undefined;
+  let match: RegExpExecArray | null;
+  while ((match = yearCandidateRegExp.exec(releaseName)) !== null) {
+    const title = cleanTitle(releaseName.slice(0, match.index));
+    const year = Number.parseInt(match[1]!, 10);
+    const movie = Movie.fromIMovie({ title, year, inputFilePath: "" });
+    if (movie.hasValidTitle() && movie.hasValidYear()) {
+      ret = { title, year };
+    }
+    // allow overlapping candidates such as "2001.2002"
+    yearCandidateRegExp.lastIndex = match.index + 1;
+  }
+
+  return ret;
+}
+
+function findVideoFiles(folderPath: string): readonly string[] {
+  const ret: string[] = [];
+
+  const entries = readdirSync(folderPath, { withFileTypes: true }).sort(
+    (a, b) => a.name.localeCompare(b.name)
+  );
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || isExtra(entry.name)) {
+      continue;
+    }
+
+    const entryPath = join(folderPath, entry.name);
+    if (entry.isDirectory()) {
+      ret.push(...findVideoFiles(entryPath));
+    } else if (
+      entry.isFile() &&
+      videoFileExtensions.includes(extname(entry.name).toLowerCase())
+    ) {
+      ret.push(entryPath);
+    }
+  }
+
+  return ret;
+}
+
+function isExtra(name: string): boolean {
+  const normalizedName = basename(name, extname(name)).toLowerCase();
+  return (
+    /\bsamples?\b/.test(normalizedName) ||
+    extrasNames.some(
+      (extrasName) =>
+        normalizedName === extrasName ||
+        normalizedName.endsWith(`-${extrasName.replace(/\s/g, "")}`)
+    )
+  );
+}
+
+function cleanTitle(title: string): string {
+  return title
+    .replace(/[._]/g, " ")
+    .replace(/[\s\-([]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,21 @@
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let nextItemIndex = 0;
+
+  // each runner picks the next unprocessed item as soon as it finishes its current one
+  const runNext = async (): Promise<void> => {
+    while (nextItemIndex < items.length) {
+      const item = items[nextItemIndex++]!;
+      await worker(item);
+    }
+  };
+
+  const runners: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(concurrency, items.length); ++i) {
+    runners.push(runNext());
+  }
+  await Promise.all(runners);
+}
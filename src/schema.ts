@@ -0,0 +1,248 @@
+// the subset of JSON Schema (draft-07) that the config is described with,
+// so the same schema validates the config and is printed for editor autocompletion
+export interface Schema {
+  // only set on the root schema
+  readonly $schema?: string;
+  readonly title?: string;
+  readonly type?: SchemaType | readonly SchemaType[];
+  readonly description?: string;
+  readonly properties?: { readonly [key: string]: Schema };
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean | Schema;
+  readonly items?: Schema;
+  readonly minItems?: number;
+  readonly minLength?: number;
+  readonly enum?: readonly (string | number | boolean | null)[];
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly exclusiveMinimum?: number;
+  // "regex" is a standard format, "path" marks the strings that are resolved relative to the config file
+  readonly format?: "regex" | "path";
+}
+
+export type SchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+// returns every problem of the value, e.g. "config.movies[0].year must be an integer"
+export function validateBySchema(
+  value: unknown,
+  schema: Schema,
+  path: string
+): readonly string[] {
+  const problems: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: readonly SchemaType[] =
+      typeof schema.type === "string" ? [schema.type] : schema.type;
+    if (!types.some((type) => isOfType(value, type))) {
+      problems.push(`${path} must be ${types.map(formatType).join(" or ")}`);
+      return problems;
+    }
+  }
+
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((enumValue) => enumValue === value)
+  ) {
+    problems.push(
+      `${path} must be one of ${schema.enum
+        .map((enumValue) => JSON.stringify(enumValue))
+        .join(", ")}`
+    );
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      problems.push(`${path} must be at most ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      problems.push(`${path} must be greater than ${schema.exclusiveMinimum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      problems.push(`${path} must not be empty`);
+    }
+    if (schema.format === "regex") {
+      try {
+        new RegExp(value, "i");
+      } catch {
+        problems.push(`${path} is not a valid regular expression`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(
+        `${path} must have at least ${schema.minItems} item${
+          schema.minItems === 1 ? "" : "s"
+        }`
+      );
+    }
+    if (schema.items !== undefined) {
+      const itemSchema = schema.items;
+      value.forEach((item, i) =>
+        problems.push(...validateBySchema(item, itemSchema, `${path}[${i}]`))
+      );
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        problems.push(`${path}.${key} is required`);
+      }
+    }
+    for (const key of Object.keys(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema !== undefined) {
+        problems.push(
+          ...validateBySchema(value[key], propertySchema, `${path}.${key}`)
+        );
+      } else if (schema.additionalProperties === false) {
+        const suggestion = getSuggestion(key, Object.keys(properties));
+        problems.push(
+          `${path}.${key} is not a known setting${
+            suggestion === undefined ? "" : `, did you mean ${suggestion}?`
+          }`
+        );
+      } else if (typeof schema.additionalProperties === "object") {
+        problems.push(
+          ...validateBySchema(
+            value[key],
+            schema.additionalProperties,
+            `${path}.${key}`
+          )
+        );
+      }
+    }
+  }
+
+  return problems;
+}
+
+// returns a copy of the value with the strings of the given format replaced, values that do not match the schema are kept as they are
+export function mapSchemaStrings(
+  value: unknown,
+  schema: Schema,
+  format: NonNullable<Schema["format"]>,
+  path: string,
+  map: (value: string, path: string) => string
+): unknown {
+  if (typeof value === "string") {
+    return schema.format === format ? map(value, path) : value;
+  }
+
+  if (Array.isArray(value)) {
+    const itemSchema = schema.items;
+    return itemSchema === undefined
+      ? value
+      : value.map((item, i) =>
+          mapSchemaStrings(item, itemSchema, format, `${path}[${i}]`, map)
+        );
+  }
+
+  if (isObject(value)) {
+    const ret: { [key: string]: unknown } = {};
+    for (const key of Object.keys(value)) {
+      const propertySchema =
+        schema.properties?.[key] ??
+        (typeof schema.additionalProperties === "object"
+          ? schema.additionalProperties
+          : undefined);
+      ret[key] =
+        propertySchema === undefined
+          ? value[key]
+          : mapSchemaStrings(
+              value[key],
+              propertySchema,
+              format,
+              `${path}.${key}`,
+              map
+            );
+    }
+    return ret;
+  }
+
+  return value;
+}
+
+export function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOfType(value: unknown, type: SchemaType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+  }
+}
+
+function formatType(type: SchemaType): string {
+  return type === "array" || type === "integer" || type === "object"
+    ? `an ${type}`
+    : type === "null"
+    ? "null"
+    : `a ${type}`;
+}
+
+// the known key that a typo is most likely meant to be, e.g. dryRun for dryrun or dryRn
+function getSuggestion(
+  key: string,
+  knownKeys: readonly string[]
+): string | undefined {
+  let best: { readonly key: string; readonly distance: number } | undefined;
+  for (const knownKey of knownKeys) {
+    const distance = getEditDistance(key.toLowerCase(), knownKey.toLowerCase());
+    if (distance <= 2 && (best === undefined || distance < best.distance)) {
+      best = { key: knownKey, distance };
+    }
+  }
+  return best?.key;
+}
+
+// Levenshtein distance
+function getEditDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; ++i) {
+    const row = [i];
+    for (let j = 1; j <= b.length; ++j) {
+      row.push(
+        Math.min(
+          previousRow[j]! + 1,
+          row[j - 1]! + 1,
+          previousRow[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+        )
+      );
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length]!;
+}
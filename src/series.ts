@@ -0,0 +1,173 @@
+import { existsSync } from "node:fs";
+import {
+  AudioProcessingConfig,
+  audioProcessingConfigSchema,
+} from "./audioProcessing";
+import {
+  ExternalSubtitle,
+  externalSubtitleSchema,
+  getExternalSubtitleProblem,
+} from "./externalSubtitles";
+import { IMovie, Movie } from "./movie";
+import { scanFolderForEpisodes } from "./scan";
+import { Schema } from "./schema";
+import {
+  StreamSelectionConfig,
+  streamSelectionConfigSchema,
+} from "./streamSelection";
+
+export interface EpisodeNumber {
+  readonly season: number;
+  readonly episode: number;
+}
+
+export interface ISeriesEpisode extends EpisodeNumber {
+  readonly inputFilePath: string;
+  readonly externalSubtitles?: readonly ExternalSubtitle[] | undefined;
+}
+
+// either the episodes are listed one by one, or they are the video files of a folder with SxxEyy in their names
+export interface ISeries {
+  readonly title: string;
+  readonly year: number;
+  readonly episodes?: readonly ISeriesEpisode[] | undefined;
+  readonly folderPath?: string | undefined;
+  readonly streamSelection?: StreamSelectionConfig | undefined;
+  readonly outputProfile?: string | undefined;
+  readonly audioProcessing?: AudioProcessingConfig | undefined;
+}
+
+export interface SeriesEpisodesResult {
+  readonly episodes: readonly IMovie[];
+  readonly unparseableFilePaths: readonly string[];
+}
+
+export function formatEpisodeNumber({
+  season,
+  episode,
+}: EpisodeNumber): string {
+  return `S${`${season}`.padStart(2, "0")}E${`${episode}`.padStart(2, "0")}`;
+}
+
+export function isValidEpisodeNumber(episodeNumber: unknown): boolean {
+  if (typeof episodeNumber !== "object" || episodeNumber === null) {
+    return false;
+  }
+  const { season, episode } = episodeNumber as EpisodeNumber;
+  // season 0 holds the specials
+  return (
+    Number.isInteger(season) &&
+    season >= 0 &&
+    Number.isInteger(episode) &&
+    episode >= 1
+  );
+}
+
+// the episodes of a series as movies, in the order of their seasons and episodes
+export function getSeriesEpisodes(series: ISeries): SeriesEpisodesResult {
+  const { episodes, unparseableFilePaths } =
+    series.folderPath === undefined
+      ? { episodes: series.episodes ?? [], unparseableFilePaths: [] }
+      : scanFolderForEpisodes(series.folderPath);
+
+  return {
+    episodes: [...episodes]
+      .sort((a, b) => a.season - b.season || a.episode - b.episode)
+      .map((episode) => ({
+        title: series.title,
+        year: series.year,
+        inputFilePath: episode.inputFilePath,
+        streamSelection: series.streamSelection,
+        outputProfile: series.outputProfile,
+        externalSubtitles: episode.externalSubtitles,
+        audioProcessing: series.audioProcessing,
+        episode: { season: episode.season, episode: episode.episode },
+      })),
+    unparseableFilePaths,
+  };
+}
+
+export const seriesSchema: Schema = {
+  type: "object",
+  description:
+    "either the episodes are listed one by one, or they are the video files of a folder with SxxEyy in their names",
+  properties: {
+    title: { type: "string", minLength: 1 },
+    year: { type: "integer", minimum: 1888 },
+    episodes: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          season: {
+            type: "integer",
+            description: "season 0 holds the specials",
+            minimum: 0,
+          },
+          episode: { type: "integer", minimum: 1 },
+          inputFilePath: { type: "string", format: "path" },
+          externalSubtitles: { type: "array", items: externalSubtitleSchema },
+        },
+        required: ["season", "episode", "inputFilePath"],
+        additionalProperties: false,
+      },
+    },
+    folderPath: { type: "string", format: "path" },
+    streamSelection: streamSelectionConfigSchema,
+    outputProfile: { type: "string" },
+    audioProcessing: audioProcessingConfigSchema,
+  },
+  required: ["title", "year"],
+  additionalProperties: false,
+};
+
+// the problems that the schema cannot tell, e.g. missing files
+export function validateSeriesConfig(
+  series: readonly ISeries[] | undefined
+): readonly string[] {
+  const problems: string[] = [];
+
+  series?.forEach((s, i) => {
+    const path = `config.series[${i}]`;
+
+    const show = Movie.fromIMovie({
+      title: s.title,
+      year: s.year,
+      inputFilePath: "",
+    });
+    if (!show.hasValidYear()) {
+      problems.push(`${path}.year is in the future`);
+    }
+
+    if ((s.episodes === undefined) === (s.folderPath === undefined)) {
+      problems.push(`${path} must have either episodes or folderPath`);
+    }
+
+    if (s.folderPath !== undefined && !existsSync(s.folderPath)) {
+      problems.push(`${path}.folderPath does not exist`);
+    }
+
+    const episodeNumbers: string[] = [];
+    s.episodes?.forEach((episode, j) => {
+      if (!existsSync(episode.inputFilePath)) {
+        problems.push(`${path}.episodes[${j}].inputFilePath does not exist`);
+      }
+      episode.externalSubtitles?.forEach((externalSubtitle, k) => {
+        const problem = getExternalSubtitleProblem(externalSubtitle);
+        if (problem !== undefined) {
+          problems.push(
+            `${path}.episodes[${j}].externalSubtitles[${k}] ${problem}`
+          );
+        }
+      });
+      const episodeNumber = formatEpisodeNumber(episode);
+      if (episodeNumbers.includes(episodeNumber)) {
+        problems.push(`${path}.episodes has ${episodeNumber} twice`);
+      }
+      episodeNumbers.push(episodeNumber);
+    });
+  });
+
+  return problems;
+}
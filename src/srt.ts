@@ -0,0 +1,102 @@
+import { readFileSync, writeFileSync } from "node:fs";
+
+export interface SrtCue {
+  readonly startMilliseconds: number;
+  readonly endMilliseconds: number;
+  readonly text: string;
+}
+
+export function parseSrt(srt: string): readonly SrtCue[] {
+  const ret: SrtCue[] = [];
+
+  const blocks = srt
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+  for (const block of blocks) {
+    const lines = block.trim().split("\n");
+    // the counter line is optional in practice, so look for the timing line instead
+    const timingLineIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingLineIndex === -1) {
+      continue;
+    }
+    const match =
+      /(\d+):(\d{2}):(\d{2})[,.](\d{3})\s*-->\s*(\d+):(\d{2}):(\d{2})[,.](\d{3})/.exec(
+        lines[timingLineIndex]!
+      );
+    if (match === null) {
+      throw new Error(`Invalid SRT timing line: ${lines[timingLineIndex]}`);
+    }
+    const [, h1, m1, s1, ms1, h2, m2, s2, ms2] = match.map((group) =>
+      Number.parseInt(group, 10)
+    );
+    ret.push({
+      startMilliseconds: toMilliseconds(h1!, m1!, s1!, ms1!),
+      endMilliseconds: toMilliseconds(h2!, m2!, s2!, ms2!),
+      text: lines.slice(timingLineIndex + 1).join("\n"),
+    });
+  }
+
+  return ret;
+}
+
+export function formatSrt(cues: readonly SrtCue[]): string {
+  return cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatTimestamp(
+          cue.startMilliseconds
+        )} --> ${formatTimestamp(cue.endMilliseconds)}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+export function stripSrtStyling(cues: readonly SrtCue[]): readonly SrtCue[] {
+  return cues
+    .map((cue) => ({
+      ...cue,
+      text: cue.text
+        // HTML-like tags, e.g. <font color="#ffffff">, <i>
+        .replace(/<[^>]*>/g, "")
+        // ASS override blocks, e.g. {\an8}, {\i1}
+        .replace(/\{\\[^}]*\}/g, "")
+        // ASS hard line breaks and hard spaces
+        .replace(/\\N/gi, "\n")
+        .replace(/\\h/g, " ")
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .join("\n"),
+    }))
+    .filter((cue) => cue.text.length > 0);
+}
+
+export function stripSrtFileStyling(srtFilePath: string): void {
+  const cues = parseSrt(readFileSync(srtFilePath, { encoding: "utf-8" }));
+  writeFileSync(srtFilePath, formatSrt(stripSrtStyling(cues)));
+}
+
+function toMilliseconds(
+  hours: number,
+  minutes: number,
+  seconds: number,
+  milliseconds: number
+): number {
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + milliseconds;
+}
+
+function formatTimestamp(totalMilliseconds: number): string {
+  const rounded = Math.max(0, Math.round(totalMilliseconds));
+  const hours = Math.floor(rounded / 3600000);
+  const minutes = Math.floor(rounded / 60000) % 60;
+  const seconds = Math.floor(rounded / 1000) % 60;
+  const milliseconds = rounded % 1000;
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)},${pad(
+    milliseconds,
+    3
+  )}`;
+}
+
+function pad(value: number, length: number): string {
+  return `${value}`.padStart(length, "0");
+}
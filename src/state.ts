@@ -0,0 +1,144 @@
+import {
+  existsSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { join, resolve } from "node:path";
+import { LoudnormMeasurement } from "./audioProcessing";
+import { ConversionFallback } from "./retry";
+
+export interface FileFingerprint {
+  readonly sizeBytes: number;
+  readonly mtimeMs: number;
+}
+
+export interface OutputFileState {
+  readonly path: string;
+  readonly sizeBytes: number;
+}
+
+export interface MovieState {
+  readonly inputFileFingerprint: FileFingerprint;
+  readonly selectedAudioStreamIndex: number;
+  readonly selectedSubtitleStreamIndex: number | null;
+  readonly ffmpegArguments?: readonly string[];
+  readonly conversionResult?: {
+    readonly successful: boolean;
+    readonly stderr: string;
+  };
+  readonly outputFiles?: readonly OutputFileState[];
+  // the fallbacks that made the conversion succeed, which are applied from the first attempt the next time
+  readonly appliedFallbacks?: readonly ConversionFallback[];
+  // the measurement pass of loudnorm is as slow as decoding the whole audio stream, so it is reused
+  readonly loudnessMeasurement?: {
+    readonly measurementArguments: readonly string[];
+    readonly measurement: LoudnormMeasurement;
+  };
+}
+
+// a selected stream is reused for another episode only if it is the same there
+export interface SelectedStreamState {
+  readonly index: number;
+  readonly codecName: string;
+  readonly language: string | undefined;
+}
+
+// the stream selection of the first episode of a season, which is reused for the other episodes
+export interface SeasonState {
+  readonly selectedAudioStream: SelectedStreamState;
+  readonly selectedSubtitleStream: SelectedStreamState | null;
+}
+
+interface StateFile {
+  readonly movies: { [inputFilePath: string]: MovieState };
+  // missing from the state files of previous versions
+  seasons?: { [seasonName: string]: SeasonState };
+}
+
+export function getFileFingerprint(filePath: string): FileFingerprint {
+  const { size, mtimeMs } = statSync(filePath);
+  return { sizeBytes: size, mtimeMs };
+}
+
+export function isOutputFileUnchanged(outputFile: OutputFileState): boolean {
+  return (
+    existsSync(outputFile.path) &&
+    statSync(outputFile.path).size === outputFile.sizeBytes
+  );
+}
+
+export class ConversionState {
+  private static readonly stateFileName = ".tvconvert-state.json";
+
+  public static load(outputFolderPath: string): ConversionState {
+    const stateFilePath = join(outputFolderPath, ConversionState.stateFileName);
+    if (!existsSync(stateFilePath)) {
+      return new ConversionState(stateFilePath, { movies: {} });
+    }
+
+    const stateFileContents = readFileSync(stateFilePath, {
+      encoding: "utf-8",
+    });
+    let stateFile: StateFile;
+    try {
+      stateFile = JSON.parse(stateFileContents);
+    } catch {
+      throw new Error(`State file ${stateFilePath} is corrupt`);
+    }
+    return new ConversionState(stateFilePath, stateFile);
+  }
+
+  private constructor(
+    private readonly stateFilePath: string,
+    private readonly stateFile: StateFile
+  ) {}
+
+  // returns undefined if the movie was not seen before, or its input file changed since
+  public getMovieState(inputFilePath: string): MovieState | undefined {
+    const key = resolve(inputFilePath);
+    const movieState = this.stateFile.movies[key];
+    if (movieState === undefined) {
+      return undefined;
+    }
+
+    const { sizeBytes, mtimeMs } = getFileFingerprint(inputFilePath);
+    if (
+      movieState.inputFileFingerprint.sizeBytes !== sizeBytes ||
+      movieState.inputFileFingerprint.mtimeMs !== mtimeMs
+    ) {
+      delete this.stateFile.movies[key];
+      return undefined;
+    }
+
+    return movieState;
+  }
+
+  public setMovieState(inputFilePath: string, movieState: MovieState): void {
+    this.stateFile.movies[resolve(inputFilePath)] = movieState;
+    this.save();
+  }
+
+  public getSeasonState(seasonName: string): SeasonState | undefined {
+    return this.stateFile.seasons?.[seasonName];
+  }
+
+  public setSeasonState(seasonName: string, seasonState: SeasonState): void {
+    this.stateFile.seasons = {
+      ...this.stateFile.seasons,
+      [seasonName]: seasonState,
+    };
+    this.save();
+  }
+
+  private save(): void {
+    // write to a temporary file first so that a crash never leaves a half-written state file behind
+    const temporaryStateFilePath = `${this.stateFilePath}.tmp`;
+    writeFileSync(
+      temporaryStateFilePath,
+      `${JSON.stringify(this.stateFile, null, 2)}\n`
+    );
+    renameSync(temporaryStateFilePath, this.stateFilePath);
+  }
+}
@@ -0,0 +1,204 @@
+import { AudioStream, Stream, SubtitleStream } from "./movie";
+import { Schema } from "./schema";
+
+export interface StreamRetentionConfig {
+  // ISO 639-2 codes, "und" matches streams without a language, all languages are kept if not set
+  readonly languages?: readonly string[] | undefined;
+  // whether to keep the original of the selected audio stream next to its transcoded version, defaults to true
+  readonly keepTranscodedOriginal?: boolean | undefined;
+  // e.g. ["comment", "visual_impaired"]
+  readonly dropDispositions?: readonly string[] | undefined;
+  // including the transcoded audio stream
+  readonly maxAudioStreams?: number | undefined;
+  readonly maxSubtitleStreams?: number | undefined;
+}
+
+export interface RetentionDecision<T extends Stream> {
+  readonly stream: T;
+  readonly kept: boolean;
+  readonly reason: string;
+}
+
+export function decideAudioStreamRetention(
+  audioStreams: readonly AudioStream[],
+  selectedAudioStream: AudioStream,
+  keepOriginalAudioStreams: boolean,
+  retention: StreamRetentionConfig | undefined
+): readonly RetentionDecision<AudioStream>[] {
+  const decisions = audioStreams.map((stream) => {
+    if (!keepOriginalAudioStreams) {
+      return drop(stream, "output profile drops original audio streams");
+    }
+    if (
+      stream === selectedAudioStream &&
+      retention?.keepTranscodedOriginal === false
+    ) {
+      return drop(stream, "original of the transcoded stream");
+    }
+    return decideByPolicy(stream, retention);
+  });
+
+  // the transcoded stream takes one place
+  return limitKeptStreams(
+    decisions,
+    retention?.maxAudioStreams === undefined
+      ? undefined
+      : retention.maxAudioStreams - 1,
+    "audio"
+  );
+}
+
+export function decideSubtitleStreamRetention(
+  subtitleStreams: readonly SubtitleStream[],
+  selectedSubtitleStream: SubtitleStream | null,
+  retention: StreamRetentionConfig | undefined
+): readonly RetentionDecision<SubtitleStream>[] {
+  const decisions = subtitleStreams.map((stream) =>
+    stream === selectedSubtitleStream
+      ? keep(stream, "selected subtitle stream")
+      : decideByPolicy(stream, retention)
+  );
+
+  // the selected subtitle stream is always kept, so the others share the remaining places
+  return limitKeptStreams(
+    decisions,
+    retention?.maxSubtitleStreams === undefined
+      ? undefined
+      : retention.maxSubtitleStreams -
+          (selectedSubtitleStream === null ? 0 : 1),
+    "subtitle",
+    selectedSubtitleStream
+  );
+}
+
+export function formatRetentionTable(
+  rows: readonly (readonly string[])[]
+): string {
+  const header = [
+    "Type",
+    "Index",
+    "Language",
+    "Codec",
+    "Title",
+    "Kept",
+    "Reason",
+  ];
+  const allRows = [header, ...rows];
+  const columnWidths = header.map((_, i) =>
+    Math.max(...allRows.map((row) => (row[i] ?? "").length))
+  );
+  return allRows
+    .map((row) =>
+      row
+        .map((cell, i) => cell.padEnd(columnWidths[i]!))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+export function getRetentionTableRow(
+  type: string,
+  decision: RetentionDecision<Stream>
+): readonly string[] {
+  const { stream, kept, reason } = decision;
+  return [
+    type,
+    `${stream.index}`,
+    stream.language ?? "???",
+    stream.codecName,
+    stream.title ?? "",
+    kept ? "yes" : "no",
+    reason,
+  ];
+}
+
+export const streamRetentionConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    languages: {
+      type: "array",
+      description:
+        'ISO 639-2 codes, "und" matches streams without a language, all languages are kept if not set',
+      items: { type: "string" },
+    },
+    keepTranscodedOriginal: {
+      type: "boolean",
+      description:
+        "whether to keep the original of the selected audio stream next to its transcoded version, defaults to true",
+    },
+    dropDispositions: { type: "array", items: { type: "string" } },
+    maxAudioStreams: {
+      type: "integer",
+      description: "including the transcoded audio stream",
+      minimum: 1,
+    },
+    maxSubtitleStreams: { type: "integer", minimum: 0 },
+  },
+  additionalProperties: false,
+};
+
+function decideByPolicy<T extends Stream>(
+  stream: T,
+  retention: StreamRetentionConfig | undefined
+): RetentionDecision<T> {
+  const language = stream.language ?? "und";
+  if (
+    retention?.languages !== undefined &&
+    !retention.languages.includes(language)
+  ) {
+    return drop(stream, `language ${language} is not kept`);
+  }
+
+  const droppedDisposition = stream.dispositionsWithoutDefault.find(
+    (disposition) => retention?.dropDispositions?.includes(disposition)
+  );
+  if (droppedDisposition !== undefined) {
+    return drop(stream, `${droppedDisposition} disposition`);
+  }
+
+  return keep(
+    stream,
+    retention?.languages === undefined
+      ? "no language filter"
+      : `language ${language} is kept`
+  );
+}
+
+// keeps the first maxKeptCount streams that are kept, in their original order
+function limitKeptStreams<T extends Stream>(
+  decisions: readonly RetentionDecision<T>[],
+  maxKeptCount: number | undefined,
+  type: string,
+  pinnedStream?: T | null
+): readonly RetentionDecision<T>[] {
+  if (maxKeptCount === undefined) {
+    return decisions;
+  }
+
+  let keptCount = 0;
+  return decisions.map((decision) => {
+    if (!decision.kept || decision.stream === pinnedStream) {
+      return decision;
+    }
+    if (keptCount >= maxKeptCount) {
+      return drop(decision.stream, `exceeds the maximum ${type} stream count`);
+    }
+    ++keptCount;
+    return decision;
+  });
+}
+
+function keep<T extends Stream>(
+  stream: T,
+  reason: string
+): RetentionDecision<T> {
+  return { stream, kept: true, reason };
+}
+
+function drop<T extends Stream>(
+  stream: T,
+  reason: string
+): RetentionDecision<T> {
+  return { stream, kept: false, reason };
+}
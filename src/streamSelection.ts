@@ -0,0 +1,166 @@
+import { AudioStream, Stream } from "./movie";
+import { Schema } from "./schema";
+
+export interface StreamSelectionRule {
+  readonly name?: string;
+  readonly languages?: readonly string[];
+  readonly codecs?: readonly string[];
+  readonly channelLayouts?: readonly string[];
+  readonly titleInclude?: string;
+  readonly titleExclude?: string;
+  readonly excludeDispositions?: readonly string[];
+}
+
+export interface StreamSelectionConfig {
+  readonly audio?: readonly StreamSelectionRule[];
+  readonly subtitle?: readonly StreamSelectionRule[];
+}
+
+export type StreamSelectionOutcome<T extends Stream> =
+  | {
+      readonly kind: "selected";
+      readonly stream: T;
+      readonly ruleDescription: string;
+    }
+  | {
+      readonly kind: "ambiguous";
+      readonly candidates: readonly T[];
+      readonly ruleDescription: string;
+    }
+  | { readonly kind: "noMatch" };
+
+export function mergeStreamSelectionConfigs(
+  globalConfig: StreamSelectionConfig | undefined,
+  movieConfig: StreamSelectionConfig | undefined
+): StreamSelectionConfig {
+  // per-movie rules replace the global rules of the same stream type
+  return {
+    audio: movieConfig?.audio ?? globalConfig?.audio ?? [],
+    subtitle: movieConfig?.subtitle ?? globalConfig?.subtitle ?? [],
+  };
+}
+
+export function selectStreamByRules<T extends Stream>(
+  streams: readonly T[],
+  rules: readonly StreamSelectionRule[],
+  streamType: "audio" | "subtitle"
+): StreamSelectionOutcome<T> {
+  for (let ruleIndex = 0; ruleIndex < rules.length; ++ruleIndex) {
+    const rule = rules[ruleIndex]!;
+    const ruleDescription =
+      rule.name !== undefined
+        ? `${streamType} rule "${rule.name}"`
+        : `${streamType} rule #${ruleIndex + 1}`;
+
+    const candidates = streams.filter((stream) => isMatching(stream, rule));
+    if (candidates.length === 0) {
+      continue;
+    }
+
+    // rank the candidates lexicographically by language, codec, and channel layout preference
+    const ranked = candidates.map((stream) => ({
+      stream,
+      rank: getRank(stream, rule),
+    }));
+    const bestRank = ranked
+      .map((r) => r.rank)
+      .reduce((best, rank) => (compareRanks(rank, best) < 0 ? rank : best));
+    const bestCandidates = ranked
+      .filter((r) => compareRanks(r.rank, bestRank) === 0)
+      .map((r) => r.stream);
+
+    if (bestCandidates.length === 1) {
+      return { kind: "selected", stream: bestCandidates[0]!, ruleDescription };
+    }
+    return { kind: "ambiguous", candidates: bestCandidates, ruleDescription };
+  }
+
+  return { kind: "noMatch" };
+}
+
+const streamSelectionRuleSchema: Schema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    languages: { type: "array", items: { type: "string" } },
+    codecs: { type: "array", items: { type: "string" } },
+    channelLayouts: { type: "array", items: { type: "string" } },
+    titleInclude: { type: "string", format: "regex" },
+    titleExclude: { type: "string", format: "regex" },
+    excludeDispositions: { type: "array", items: { type: "string" } },
+  },
+  additionalProperties: false,
+};
+
+export const streamSelectionConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    audio: { type: "array", items: streamSelectionRuleSchema },
+    subtitle: { type: "array", items: streamSelectionRuleSchema },
+  },
+  additionalProperties: false,
+};
+
+function isMatching(stream: Stream, rule: StreamSelectionRule): boolean {
+  if (
+    rule.languages !== undefined &&
+    !rule.languages.includes(stream.language ?? "")
+  ) {
+    return false;
+  }
+
+  if (
+    rule.titleInclude !== undefined &&
+    !new RegExp(rule.titleInclude, "i").test(stream.title ?? "")
+  ) {
+    return false;
+  }
+
+  if (
+    rule.titleExclude !== undefined &&
+    new RegExp(rule.titleExclude, "i").test(stream.title ?? "")
+  ) {
+    return false;
+  }
+
+  if (
+    rule.excludeDispositions !== undefined &&
+    stream.dispositionsWithoutDefault.some((disposition) =>
+      rule.excludeDispositions!.includes(disposition)
+    )
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+function getRank(stream: Stream, rule: StreamSelectionRule): readonly number[] {
+  const channelLayout = (stream as Partial<AudioStream>).channelLayout;
+  return [
+    getPreferenceRank(rule.languages, stream.language),
+    getPreferenceRank(rule.codecs, stream.codecName),
+    getPreferenceRank(rule.channelLayouts, channelLayout),
+  ];
+}
+
+function getPreferenceRank(
+  preferences: readonly string[] | undefined,
+  value: string | undefined
+): number {
+  if (preferences === undefined) {
+    return 0;
+  }
+  const index = value === undefined ? -1 : preferences.indexOf(value);
+  return index === -1 ? preferences.length : index;
+}
+
+function compareRanks(a: readonly number[], b: readonly number[]): number {
+  for (let i = 0; i < a.length; ++i) {
+    const difference = a[i]! - b[i]!;
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
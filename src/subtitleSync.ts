@@ -0,0 +1,354 @@
+import { spawn } from "node:child_process";
+import { readFileSync, writeFileSync } from "node:fs";
+import { Schema } from "./schema";
+import { formatSrt, parseSrt, SrtCue } from "./srt";
+
+export interface SubtitleSyncConfig {
+  readonly offsetMilliseconds?: number;
+  // the subtitle was timed for a video with the "from" framerate, e.g. 25 for a PAL release
+  readonly framerate?: { readonly from: number; readonly to: number };
+  readonly autoAlign?: "subtitle" | "speech";
+}
+
+export interface AlignmentReference {
+  readonly ffmpegBinaryPath: string;
+  readonly inputFilePath: string;
+  // the embedded text subtitle stream for "subtitle", or the selected audio stream for "speech"
+  readonly streamIndex: number;
+  // the duration of the input file, which ends the speech that no silence follows
+  readonly durationSeconds: number;
+  // the analysis decodes the whole stream, so it is killed when the conversion is aborted
+  readonly abortSignal: AbortSignal | undefined;
+}
+
+interface Interval {
+  readonly startMilliseconds: number;
+  readonly endMilliseconds: number;
+}
+
+interface Alignment {
+  readonly ratio: number;
+  readonly offsetMilliseconds: number;
+}
+
+// common framerate mismatches between releases: 23.976, 24, and 25 fps in either direction
+const candidateFramerateRatios = [
+  1,
+  25 / (24000 / 1001),
+  24000 / 1001 / 25,
+  24 / (24000 / 1001),
+  24000 / 1001 / 24,
+  25 / 24,
+  24 / 25,
+];
+
+// auto-alignment searches for offsets in this range
+const maxAutoAlignOffsetMilliseconds = 120_000;
+
+export async function syncSubtitleFile(
+  inputFilePath: string,
+  characterEncoding: string | undefined,
+  outputFilePath: string,
+  sync: SubtitleSyncConfig,
+  alignmentReference: AlignmentReference | undefined
+): Promise<string> {
+  const srt = new TextDecoder(characterEncoding ?? "utf-8").decode(
+    readFileSync(inputFilePath)
+  );
+  let cues = parseSrt(srt);
+  const log: string[] = [];
+
+  if (sync.framerate !== undefined) {
+    cues = transformCues(cues, {
+      ratio: sync.framerate.from / sync.framerate.to,
+      offsetMilliseconds: 0,
+    });
+    log.push(`framerate ${sync.framerate.from} -> ${sync.framerate.to}`);
+  }
+
+  if (sync.offsetMilliseconds !== undefined) {
+    cues = transformCues(cues, {
+      ratio: 1,
+      offsetMilliseconds: sync.offsetMilliseconds,
+    });
+    log.push(`offset ${sync.offsetMilliseconds} ms`);
+  }
+
+  if (sync.autoAlign !== undefined) {
+    if (alignmentReference === undefined) {
+      throw new Error(
+        `Cannot auto-align ${inputFilePath}: no ${sync.autoAlign} reference found`
+      );
+    }
+    const referenceIntervals =
+      sync.autoAlign === "subtitle"
+        ? await getSubtitleIntervals(alignmentReference)
+        : await getSpeechIntervals(alignmentReference);
+    const alignment = findBestAlignment(
+      cues,
+      referenceIntervals,
+      sync.framerate === undefined ? candidateFramerateRatios : [1]
+    );
+    cues = transformCues(cues, alignment);
+    log.push(
+      `auto-aligned to ${sync.autoAlign} with ratio ${alignment.ratio.toFixed(
+        4
+      )} and offset ${alignment.offsetMilliseconds} ms`
+    );
+  }
+
+  writeFileSync(outputFilePath, formatSrt(cues));
+  return log.join(", ");
+}
+
+export const subtitleSyncConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    offsetMilliseconds: { type: "number" },
+    framerate: {
+      type: "object",
+      description:
+        'the subtitle was timed for a video with the "from" framerate, e.g. 25 for a PAL release',
+      properties: {
+        from: { type: "number", exclusiveMinimum: 0 },
+        to: { type: "number", exclusiveMinimum: 0 },
+      },
+      required: ["from", "to"],
+      additionalProperties: false,
+    },
+    autoAlign: { type: "string", enum: ["subtitle", "speech"] },
+  },
+  additionalProperties: false,
+};
+
+function transformCues(
+  cues: readonly SrtCue[],
+  { ratio, offsetMilliseconds }: Alignment
+): readonly SrtCue[] {
+  return cues.map((cue) => ({
+    ...cue,
+    startMilliseconds: cue.startMilliseconds * ratio + offsetMilliseconds,
+    endMilliseconds: cue.endMilliseconds * ratio + offsetMilliseconds,
+  }));
+}
+
+// maximizes the overlap of the cues and the reference intervals,
+// first on a coarse timeline, then on a fine one around the best coarse offset
+function findBestAlignment(
+  cues: readonly SrtCue[],
+  referenceIntervals: readonly Interval[],
+  ratios: readonly number[]
+): Alignment {
+  const coarseResolutionMilliseconds = 1000;
+  const fineResolutionMilliseconds = 50;
+
+  let best = { ratio: 1, offsetMilliseconds: 0, score: -1 };
+  for (const ratio of ratios) {
+    const transformedCues = transformCues(cues, {
+      ratio,
+      offsetMilliseconds: 0,
+    });
+    const coarse = findBestOffset(
+      transformedCues,
+      referenceIntervals,
+      coarseResolutionMilliseconds,
+      -maxAutoAlignOffsetMilliseconds,
+      maxAutoAlignOffsetMilliseconds
+    );
+    const fine = findBestOffset(
+      transformedCues,
+      referenceIntervals,
+      fineResolutionMilliseconds,
+      coarse.offsetMilliseconds - coarseResolutionMilliseconds,
+      coarse.offsetMilliseconds + coarseResolutionMilliseconds
+    );
+    if (fine.score > best.score) {
+      best = { ratio, ...fine };
+    }
+  }
+
+  return { ratio: best.ratio, offsetMilliseconds: best.offsetMilliseconds };
+}
+
+function findBestOffset(
+  cues: readonly Interval[],
+  referenceIntervals: readonly Interval[],
+  resolutionMilliseconds: number,
+  minOffsetMilliseconds: number,
+  maxOffsetMilliseconds: number
+): { offsetMilliseconds: number; score: number } {
+  const cueTimeline = toTimeline(cues, resolutionMilliseconds);
+  const referenceTimeline = toTimeline(
+    referenceIntervals,
+    resolutionMilliseconds
+  );
+
+  const minOffset = Math.round(minOffsetMilliseconds / resolutionMilliseconds);
+  const maxOffset = Math.round(maxOffsetMilliseconds / resolutionMilliseconds);
+
+  let bestOffset = 0;
+  let bestScore = -1;
+  for (let offset = minOffset; offset <= maxOffset; ++offset) {
+    let score = 0;
+    for (let i = 0; i < cueTimeline.length; ++i) {
+      if (cueTimeline[i] === 1 && referenceTimeline[i + offset] === 1) {
+        ++score;
+      }
+    }
+    // prefer the smallest correction among equally good ones
+    if (
+      score > bestScore ||
+      (score === bestScore && Math.abs(offset) < Math.abs(bestOffset))
+    ) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+
+  return {
+    offsetMilliseconds: bestOffset * resolutionMilliseconds,
+    score: bestScore,
+  };
+}
+
+function toTimeline(
+  intervals: readonly Interval[],
+  resolutionMilliseconds: number
+): Uint8Array {
+  const end = intervals.reduce(
+    (max, interval) => Math.max(max, interval.endMilliseconds),
+    0
+  );
+  const timeline = new Uint8Array(Math.ceil(end / resolutionMilliseconds) + 1);
+  for (const interval of intervals) {
+    const from = Math.max(
+      0,
+      Math.floor(interval.startMilliseconds / resolutionMilliseconds)
+    );
+    const to = Math.ceil(interval.endMilliseconds / resolutionMilliseconds);
+    timeline.fill(1, from, to);
+  }
+  return timeline;
+}
+
+async function getSubtitleIntervals(
+  reference: AlignmentReference
+): Promise<readonly Interval[]> {
+  const { stdout } = await runFfmpegAnalysis(
+    reference.ffmpegBinaryPath,
+    [
+      "-i",
+      reference.inputFilePath,
+      "-map",
+      `0:${reference.streamIndex}`,
+      "-f",
+      "srt",
+      "-",
+    ],
+    reference.abortSignal
+  );
+  return parseSrt(stdout);
+}
+
+async function getSpeechIntervals(
+  reference: AlignmentReference
+): Promise<readonly Interval[]> {
+  const { stderr } = await runFfmpegAnalysis(
+    reference.ffmpegBinaryPath,
+    [
+      "-i",
+      reference.inputFilePath,
+      "-map",
+      `0:${reference.streamIndex}`,
+      "-af",
+      "silencedetect=noise=-30dB:d=0.5",
+      "-f",
+      "null",
+      "-",
+    ],
+    reference.abortSignal
+  );
+
+  // speech is approximated as everything between the detected silences
+  const ret: Interval[] = [];
+  let speechStartMilliseconds = 0;
+  let isSilent = false;
+  for (const line of stderr.split("\n")) {
+    const silenceStart = /silence_start: (-?[\d.]+)/.exec(line);
+    if (silenceStart !== null) {
+      isSilent = true;
+      const silenceStartMilliseconds = Number(silenceStart[1]) * 1000;
+      if (silenceStartMilliseconds > speechStartMilliseconds) {
+        ret.push({
+          startMilliseconds: speechStartMilliseconds,
+          endMilliseconds: silenceStartMilliseconds,
+        });
+      }
+    }
+    const silenceEnd = /silence_end: ([\d.]+)/.exec(line);
+    if (silenceEnd !== null) {
+      isSilent = false;
+      speechStartMilliseconds = Number(silenceEnd[1]) * 1000;
+    }
+  }
+  const durationMilliseconds = reference.durationSeconds * 1000;
+  if (!isSilent && durationMilliseconds > speechStartMilliseconds) {
+    ret.push({
+      startMilliseconds: speechStartMilliseconds,
+      endMilliseconds: durationMilliseconds,
+    });
+  }
+  return ret;
+}
+
+function runFfmpegAnalysis(
+  ffmpegBinaryPath: string,
+  ffmpegArguments: readonly string[],
+  abortSignal: AbortSignal | undefined
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new Error("ffmpeg analysis was aborted"));
+      return;
+    }
+    const ffmpeg = spawn(ffmpegBinaryPath, [
+      "-hide_banner",
+      "-nostats",
+      ...ffmpegArguments,
+    ]);
+    const onAbort = () => {
+      ffmpeg.kill();
+    };
+    abortSignal?.addEventListener("abort", onAbort);
+
+    let stdout = "";
+    ffmpeg.stdout.setEncoding("utf8");
+    ffmpeg.stdout.on("data", (data) => {
+      stdout += data;
+    });
+
+    let stderr = "";
+    ffmpeg.stderr.setEncoding("utf8");
+    ffmpeg.stderr.on("data", (data) => {
+      stderr += data;
+    });
+
+    ffmpeg.on("error", (error) => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      reject(new Error(`ffmpeg analysis failed: ${error.message}`));
+    });
+
+    ffmpeg.on("close", (exitCode) => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      if (abortSignal?.aborted) {
+        reject(new Error("ffmpeg analysis was aborted"));
+        return;
+      }
+      if (exitCode !== 0) {
+        reject(new Error(`ffmpeg analysis failed:\n${stderr}`));
+        return;
+      }
+      resolve({ stdout, stderr });
+    });
+  });
+}
@@ -1,70 +1,274 @@
 import { writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
 import { argv, exit } from "node:process";
+import { convertMovies, findOutputNameProblems } from "./batch";
 import { Config } from "./config";
-import { Movie } from "./movie";
+import { Ffprobe } from "./ffprobe";
+import { IMovie, Movie } from "./movie";
+import { FileNaming } from "./naming";
+import { scanFolderForMovies } from "./scan";
+import { getSeriesEpisodes, ISeries } from "./series";
+import { ConversionState } from "./state";
+import { watchFolders } from "./watch";
 
 function printHelp(): void {
   console.log("Read config from {configfile}.json:");
   console.log("  tvconvert.sh -c {configfile}.json");
   console.log("  tvconvert.sh --config {configfile}.json");
-  console.log("Print config skeleton into {configfile}.json:");
+  console.log(
+    "Print config skeleton into {configfile}.json and its JSON Schema into tvconvert.schema.json next to it:"
+  );
   console.log("  tvconvert.sh -p {configfile}.json");
   console.log("  tvconvert.sh --print-config {configfile}.json");
+  console.log(
+    "Scan {folder} for movies and print config with them into {configfile}.json:"
+  );
+  console.log("  tvconvert.sh -s {folder} {configfile}.json");
+  console.log("  tvconvert.sh --scan {folder} {configfile}.json");
+  console.log(
+    "Read config from {configfile}.json and also convert the movies found in {folder}:"
+  );
+  console.log("  tvconvert.sh -c {configfile}.json -s {folder}");
+  console.log("  tvconvert.sh --config {configfile}.json --scan {folder}");
+  console.log(
+    "Read config from {configfile}.json and convert the movies that appear in the folders of its watch section until SIGTERM:"
+  );
+  console.log("  tvconvert.sh -w {configfile}.json");
+  console.log("  tvconvert.sh --watch {configfile}.json");
+}
+
+function scan(folderPath: string): readonly IMovie[] {
+  const { movies, unparseableFilePaths } = scanFolderForMovies(folderPath);
+
+  console.log(`Found ${movies.length} movies in ${folderPath}`);
+  if (unparseableFilePaths.length > 0) {
+    console.log(
+      `Could not determine title and year for the following files:\n${unparseableFilePaths.join(
+        "\n"
+      )}`
+    );
+  }
+
+  return movies;
+}
+
+function getEpisodes(series: ISeries): readonly IMovie[] {
+  const { episodes, unparseableFilePaths } = getSeriesEpisodes(series);
+
+  console.log(
+    `Found ${episodes.length} episodes of ${series.title} (${series.year})`
+  );
+  if (unparseableFilePaths.length > 0) {
+    console.log(
+      `Could not determine season and episode for the following files:\n${unparseableFilePaths.join(
+        "\n"
+      )}`
+    );
+  }
+
+  return episodes;
+}
+
+// the JSON Schema is written next to the config file, so editors can autocomplete and validate it
+function writeConfigFile(
+  configFilePath: string,
+  config: Partial<Config>
+): void {
+  const schemaFileName = "tvconvert.schema.json";
+  writeFileSync(
+    configFilePath,
+    `${JSON.stringify(
+      { $schema: `./${schemaFileName}`, ...config },
+      null,
+      2
+    )}\n`
+  );
+  writeFileSync(
+    join(dirname(configFilePath), schemaFileName),
+    `${JSON.stringify(Config.getJsonSchema(), null, 2)}\n`
+  );
 }
 
 async function main() {
   const args = argv.slice(2);
-  if (args.length !== 2) {
+  if (args.length < 2) {
     printHelp();
     return 1;
   }
 
   const mode = args[0]!;
-  const configFilePath = args[1]!;
 
-  if (!["-c", "--config", "-p", "--print-config"].some((m) => m === mode)) {
-    printHelp();
-    return 1;
+  if (["-p", "--print-config"].some((m) => m === mode) && args.length === 2) {
+    const configFilePath = args[1]!;
+    writeConfigFile(configFilePath, Config.getExampleConfig());
+    return 0;
   }
 
-  if (["-p", "--print-config"].some((m) => m === mode)) {
-    writeFileSync(
-      configFilePath,
-      `${JSON.stringify(Config.getExampleConfig(), null, 2)}\n`
-    );
+  if (["-s", "--scan"].some((m) => m === mode) && args.length === 3) {
+    const scanFolderPath = args[1]!;
+    const configFilePath = args[2]!;
+    let movies: readonly IMovie[];
+    try {
+      movies = scan(scanFolderPath);
+    } catch (ex) {
+      console.error(ex instanceof Error ? ex.message : ex);
+      return 1;
+    }
+    // only the required fields, since the optional examples refer to files that do not exist, e.g. the series folder
+    const {
+      version,
+      ffmpegBinaryPath,
+      ffprobeBinaryPath,
+      outputFolderPath,
+      dryRun,
+    } = Config.getExampleConfig();
+    writeConfigFile(configFilePath, {
+      version,
+      ffmpegBinaryPath,
+      ffprobeBinaryPath,
+      outputFolderPath,
+      // relative paths would be resolved against the folder of the config file
+      movies: movies.map((movie) => ({
+        ...movie,
+        inputFilePath: resolve(movie.inputFilePath),
+      })),
+      dryRun,
+    });
+    return 0;
+  }
+
+  if (["-w", "--watch"].some((m) => m === mode) && args.length === 2) {
+    const configFilePath = args[1]!;
+    let config: Config;
+    let state: ConversionState;
+    let ffprobe: Ffprobe;
+    try {
+      config = Config.parseFromFile(configFilePath);
+      if (config.watch === undefined) {
+        throw new Error("config.watch is required in watch mode");
+      }
+      state = ConversionState.load(config.outputFolderPath);
+      ffprobe = Ffprobe.create(
+        config.ffprobeBinaryPath,
+        config.outputFolderPath
+      );
+    } catch (ex) {
+      console.error(ex instanceof Error ? ex.message : ex);
+      return 1;
+    }
+    try {
+      await watchFolders(config, config.watch, state, ffprobe);
+    } catch (ex) {
+      // e.g. the port of the HTTP server is in use
+      console.error(ex instanceof Error ? ex.message : ex);
+      return 1;
+    }
     return 0;
   }
 
+  if (
+    !["-c", "--config"].some((m) => m === mode) ||
+    !(
+      args.length === 2 ||
+      (args.length === 4 && ["-s", "--scan"].some((m) => m === args[2]))
+    )
+  ) {
+    printHelp();
+    return 1;
+  }
+
+  const configFilePath = args[1]!;
+  const scanFolderPath = args[3];
+
   let config: Config;
+  let scannedMovies: readonly IMovie[] = [];
+  let episodes: readonly IMovie[] = [];
+  let state: ConversionState;
+  let ffprobe: Ffprobe;
   try {
     config = Config.parseFromFile(configFilePath);
+    if (scanFolderPath !== undefined) {
+      scannedMovies = scan(scanFolderPath);
+    }
+    episodes = (config.series ?? []).flatMap((series) => getEpisodes(series));
+    state = ConversionState.load(config.outputFolderPath);
+    ffprobe = Ffprobe.create(config.ffprobeBinaryPath, config.outputFolderPath);
   } catch (ex) {
     console.error(ex instanceof Error ? ex.message : ex);
     return 1;
   }
 
-  const movies = config.movies.map((movie) => Movie.fromIMovie(movie));
+  const naming = FileNaming.create(config.naming);
+  const movies = [...config.movies, ...scannedMovies, ...episodes].map(
+    (movie) => Movie.fromIMovie(movie, naming)
+  );
 
-  for (const movie of movies) {
-    await movie.collectConversionInfo(config.ffprobeBinaryPath);
+  // every input is probed before the first question about its streams, so that a broken file does not stop the batch halfway
+  const probeErrors = await ffprobe.probeAll(
+    movies.map((movie) => movie.inputFilePath)
+  );
+  if (probeErrors.length > 0) {
+    for (const error of probeErrors) {
+      console.error(error.message);
+    }
+    return 1;
   }
 
-  let currentFileIndex = 0;
   for (const movie of movies) {
-    await movie.convert(
-      config.outputFolderPath,
-      config.ffmpegBinaryPath,
-      config.dryRun,
-      ++currentFileIndex,
-      movies.length
+    await movie.collectConversionInfo(
+      ffprobe,
+      config.streamSelection,
+      config.subtitleOcr,
+      state,
+      true
     );
   }
 
+  // before any conversion starts, since a later movie would overwrite the outputs of an earlier one
+  const outputNameProblems = findOutputNameProblems(
+    config.outputFolderPath,
+    naming,
+    movies
+  );
+  if (outputNameProblems.length > 0) {
+    for (const { movie, reason } of outputNameProblems) {
+      console.error(`${movie.getFullyQualifiedName(false)}: ${reason}`);
+    }
+    console.error(
+      "ABORTING, set the edition of the movies or change config.naming"
+    );
+    return 1;
+  }
+
+  // the conversions are aborted on the first signal, then the report is written as usual
+  const abortController = new AbortController();
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (!abortController.signal.aborted) {
+      console.log(
+        `\nReceived ${signal}, aborting the conversions and waiting for ffmpeg to exit`
+      );
+      abortController.abort(signal);
+    }
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+  const convertedMovies = await convertMovies(
+    config,
+    ffprobe,
+    movies,
+    state,
+    () => abortController.signal.aborted,
+    { getAbortSignal: () => abortController.signal },
+    false
+  );
+  process.off("SIGINT", onSignal);
+  process.off("SIGTERM", onSignal);
+
   if (config.dryRun) {
     return 0;
   }
 
-  const moviesWithConversionError = movies.filter(
+  const moviesWithConversionError = convertedMovies.filter(
     (movie) => !movie.getConversionResult().successful
   );
   if (moviesWithConversionError.length > 0) {
@@ -79,10 +283,25 @@ async function main() {
     return 1;
   }
 
+  if (convertedMovies.length < movies.length) {
+    console.log(
+      `\nABORTED BEFORE CONVERTING ${
+        movies.length - convertedMovies.length
+      } MOVIES`
+    );
+    return 1;
+  }
+
   console.log("\nSUCCESS");
   return 0;
 }
 
-main().then((exitCode) => {
-  exit(exitCode);
-});
+main().then(
+  (exitCode) => {
+    exit(exitCode);
+  },
+  (ex) => {
+    console.error(ex instanceof Error ? ex.message : ex);
+    exit(1);
+  }
+);
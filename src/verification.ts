@@ -0,0 +1,115 @@
+import { existsSync, readFileSync } from "node:fs";
+import { FfProbeOutput } from "./ffprobe";
+import { parseSrt } from "./srt";
+
+export interface ExpectedOutputStream {
+  readonly codecType: "video" | "audio" | "subtitle";
+  readonly codecName: string;
+  readonly language: string | undefined;
+  readonly isDefault: boolean;
+}
+
+export interface ExpectedOutput {
+  readonly mkvFilePath: string;
+  readonly durationSeconds: number;
+  readonly streams: readonly ExpectedOutputStream[];
+  readonly srtFilePath: string | undefined;
+}
+
+// the output may be slightly shorter or longer than the source due to packet boundaries
+const durationToleranceSeconds = 2;
+const durationToleranceRatio = 0.005;
+
+// ffprobe reports the codec, not the encoder that produced it
+const encoderCodecNames: { [encoderName: string]: string } = {
+  libaom_av1: "av1",
+  "libaom-av1": "av1",
+  libfdk_aac: "aac",
+  libopus: "opus",
+  libsvtav1: "av1",
+  libvorbis: "vorbis",
+  libx264: "h264",
+  libx265: "hevc",
+};
+
+export function getCodecNameForEncoder(encoderName: string): string {
+  return encoderCodecNames[encoderName] ?? encoderName;
+}
+
+// returns the reasons why the output does not match the expectations, or an empty list if it does
+export function verifyOutput(
+  ffprobeOutput: FfProbeOutput,
+  expectedOutput: ExpectedOutput
+): readonly string[] {
+  const ret: string[] = [];
+
+  const durationSeconds = Number.parseFloat(ffprobeOutput.format.duration);
+  const toleranceSeconds = Math.max(
+    durationToleranceSeconds,
+    expectedOutput.durationSeconds * durationToleranceRatio
+  );
+  if (
+    !Number.isFinite(durationSeconds) ||
+    Math.abs(durationSeconds - expectedOutput.durationSeconds) >
+      toleranceSeconds
+  ) {
+    ret.push(
+      `duration is ${durationSeconds}s instead of ${expectedOutput.durationSeconds}s`
+    );
+  }
+
+  if (ffprobeOutput.streams.length !== expectedOutput.streams.length) {
+    ret.push(
+      `stream count is ${ffprobeOutput.streams.length} instead of ${expectedOutput.streams.length}`
+    );
+  } else {
+    expectedOutput.streams.forEach((expectedStream, i) => {
+      const stream = ffprobeOutput.streams[i]!;
+      if (
+        stream.codec_type !== expectedStream.codecType ||
+        stream.codec_name !== expectedStream.codecName
+      ) {
+        ret.push(
+          `stream ${i} is ${stream.codec_type} ${stream.codec_name} instead of ${expectedStream.codecType} ${expectedStream.codecName}`
+        );
+      }
+      const language = stream.tags?.["language"];
+      if (
+        expectedStream.language !== undefined &&
+        language !== expectedStream.language
+      ) {
+        ret.push(
+          `stream ${i} language is ${language ?? "???"} instead of ${
+            expectedStream.language
+          }`
+        );
+      }
+      if (expectedStream.isDefault && stream.disposition["default"] !== 1) {
+        ret.push(`stream ${i} is not the default stream`);
+      }
+    });
+  }
+
+  if (expectedOutput.srtFilePath !== undefined) {
+    ret.push(...verifySrtFile(expectedOutput.srtFilePath));
+  }
+
+  return ret;
+}
+
+function verifySrtFile(srtFilePath: string): readonly string[] {
+  if (!existsSync(srtFilePath)) {
+    return [`${srtFilePath} does not exist`];
+  }
+
+  try {
+    const cues = parseSrt(readFileSync(srtFilePath, { encoding: "utf-8" }));
+    return cues.length === 0 ? [`${srtFilePath} is empty`] : [];
+  } catch (ex) {
+    return [
+      `${srtFilePath} is not parseable: ${
+        ex instanceof Error ? ex.message : ex
+      }`,
+    ];
+  }
+}
@@ -0,0 +1,346 @@
+import { closeSync, existsSync, openSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { convertMovies, findOutputNameProblems } from "./batch";
+import { Config } from "./config";
+import { Ffprobe } from "./ffprobe";
+import { startHttpServer, stopHttpServer } from "./httpServer";
+import { IMovie, Movie } from "./movie";
+import { FileNaming } from "./naming";
+import { ConversionQueue } from "./queue";
+import { scanFolderForMovies } from "./scan";
+import { Schema } from "./schema";
+import { ConversionState, FileFingerprint, getFileFingerprint } from "./state";
+
+export interface WatchConfig {
+  readonly inputFolderPaths: readonly string[];
+  // how long the size and the modification time of a file must stay unchanged before it is converted, defaults to 60
+  readonly stableSeconds?: number | undefined;
+  // defaults to 30
+  readonly pollIntervalSeconds?: number | undefined;
+}
+
+// a movie that needs a decision of the user, e.g. through the HTTP API, or by converting it with -c once
+export interface PendingMovie {
+  readonly title: string | undefined;
+  readonly year: number | undefined;
+  readonly inputFilePath: string;
+  readonly reason: string;
+}
+
+interface FileObservation {
+  readonly fingerprint: FileFingerprint;
+  readonly unchangedSinceMs: number;
+}
+
+interface WatchedFile {
+  readonly filePath: string;
+  // undefined if the title and the year cannot be determined from the path
+  readonly movie: IMovie | undefined;
+}
+
+const pendingListFileName = "tvconvert-pending.json";
+
+// converts the movies that appear in the watched folders until SIGTERM or SIGINT,
+// the first signal lets the current conversions finish, the second one aborts them
+export async function watchFolders(
+  config: Config,
+  watch: WatchConfig,
+  state: ConversionState,
+  ffprobe: Ffprobe
+): Promise<void> {
+  const stableMs = (watch.stableSeconds ?? 60) * 1000;
+  const pollIntervalMs = (watch.pollIntervalSeconds ?? 30) * 1000;
+
+  const observations: { [filePath: string]: FileObservation } = {};
+  const handledFingerprints: { [filePath: string]: FileFingerprint } = {};
+  let unidentifiedFilePaths: string[] = [];
+  let writtenPendingList: string | undefined;
+
+  let stopping = false;
+  let wakeUp = () => {};
+  const naming = FileNaming.create(config.naming);
+  const queue = new ConversionQueue(() => wakeUp(), naming);
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (!stopping) {
+      stopping = true;
+      console.log(
+        `\nReceived ${signal}, finishing the current conversions, send it again to abort them`
+      );
+      wakeUp();
+    } else {
+      console.log(`\nReceived ${signal}, aborting the current conversions`);
+      queue.abortAll(signal);
+    }
+  };
+  process.on("SIGTERM", onSignal);
+  process.on("SIGINT", onSignal);
+
+  const server =
+    config.httpServer === undefined
+      ? undefined
+      : await startHttpServer(config.httpServer, config, state, ffprobe, queue);
+
+  console.log(`Watching ${watch.inputFolderPaths.join(", ")}…`);
+
+  while (!stopping) {
+    const nowMs = Date.now();
+    const watchedFiles = findWatchedFiles(watch.inputFolderPaths);
+    const watchedFilePaths = watchedFiles.map((file) => file.filePath);
+
+    // forget the files that were moved or deleted, so that they are handled again if they come back
+    for (const observedFiles of [observations, handledFingerprints]) {
+      for (const filePath of Object.keys(observedFiles)) {
+        if (!watchedFilePaths.includes(filePath)) {
+          delete observedFiles[filePath];
+          queue.removeInputFile(filePath);
+        }
+      }
+    }
+    unidentifiedFilePaths = unidentifiedFilePaths.filter((filePath) =>
+      watchedFilePaths.includes(filePath)
+    );
+
+    for (const { filePath, movie } of watchedFiles) {
+      let fingerprint: FileFingerprint;
+      try {
+        fingerprint = getFileFingerprint(filePath);
+      } catch {
+        continue;
+      }
+
+      const handledFingerprint = handledFingerprints[filePath];
+      if (
+        handledFingerprint !== undefined &&
+        isSameFingerprint(handledFingerprint, fingerprint)
+      ) {
+        continue;
+      }
+
+      const observation = observations[filePath];
+      if (
+        observation === undefined ||
+        !isSameFingerprint(observation.fingerprint, fingerprint)
+      ) {
+        observations[filePath] = { fingerprint, unchangedSinceMs: nowMs };
+        continue;
+      }
+      if (
+        nowMs - observation.unchangedSinceMs < stableMs ||
+        !canBeOpened(filePath)
+      ) {
+        continue;
+      }
+
+      delete observations[filePath];
+      handledFingerprints[filePath] = fingerprint;
+      // the entries of the previous contents of the file are stale
+      if (handledFingerprint !== undefined) {
+        queue.removeInputFile(filePath);
+      }
+
+      // e.g. it was enqueued through the HTTP API meanwhile, with a corrected title and year
+      if (queue.isActive(filePath)) {
+        continue;
+      }
+
+      if (movie === undefined) {
+        if (!unidentifiedFilePaths.includes(filePath)) {
+          unidentifiedFilePaths.push(filePath);
+        }
+        console.log(`Parked ${filePath}: could not determine title and year`);
+        continue;
+      }
+      queue.enqueue(movie);
+    }
+    queue.setUnidentifiedFilePaths([...unidentifiedFilePaths]);
+
+    // the files that cannot be probed are parked below with the error
+    await ffprobe.probeAll(
+      queue.getWaitingMovies().map((movie) => movie.inputFilePath)
+    );
+
+    // stream selection has to be decided by the rules, or by a previous interactive run or the HTTP API
+    const collectedMovies: Movie[] = [];
+    for (const movie of queue.getWaitingMovies()) {
+      try {
+        await movie.collectConversionInfo(
+          ffprobe,
+          config.streamSelection,
+          config.subtitleOcr,
+          state,
+          false
+        );
+        queue.setConversionInfoCollected(movie);
+        collectedMovies.push(movie);
+      } catch (ex) {
+        const reason = ex instanceof Error ? ex.message : `${ex}`;
+        queue.park(movie, reason);
+        console.log(`Parked ${movie.getFullyQualifiedName(false)}: ${reason}`);
+      }
+    }
+    // the first of the movies with the same output name is converted
+    for (const { movie, reason } of findOutputNameProblems(
+      config.outputFolderPath,
+      naming,
+      collectedMovies
+    )) {
+      collectedMovies.splice(collectedMovies.indexOf(movie), 1);
+      queue.park(movie, reason);
+      console.log(`Parked ${movie.getFullyQualifiedName(false)}: ${reason}`);
+    }
+
+    writtenPendingList = writePendingList(
+      config.outputFolderPath,
+      queue,
+      writtenPendingList
+    );
+
+    if (collectedMovies.length > 0) {
+      const convertedMovies = await convertMovies(
+        config,
+        ffprobe,
+        collectedMovies,
+        state,
+        () => stopping,
+        queue,
+        true
+      );
+      for (const movie of convertedMovies) {
+        const { status, stderrExcerpt } = movie.getConversionReport();
+        if (status === "failed") {
+          console.log(
+            `\n${movie.getFullyQualifiedName(false)}\n${stderrExcerpt}`
+          );
+        }
+      }
+    }
+
+    // the movies that were enqueued during the conversions are collected right away,
+    // the ones that were skipped, e.g. for lack of disk space, are retried on the next poll
+    if (
+      !stopping &&
+      queue.getWaitingMovies().every((movie) => collectedMovies.includes(movie))
+    ) {
+      if (collectedMovies.length > 0) {
+        console.log(`\nWatching ${watch.inputFolderPaths.join(", ")}…`);
+      }
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, pollIntervalMs);
+        wakeUp = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+      });
+      wakeUp = () => {};
+    }
+  }
+
+  if (server !== undefined) {
+    await stopHttpServer(server);
+  }
+  process.off("SIGTERM", onSignal);
+  process.off("SIGINT", onSignal);
+}
+
+export const watchConfigSchema: Schema = {
+  type: "object",
+  properties: {
+    inputFolderPaths: {
+      type: "array",
+      minItems: 1,
+      items: { type: "string", format: "path" },
+    },
+    stableSeconds: {
+      type: "number",
+      description:
+        "how long the size and the modification time of a file must stay unchanged before it is converted, defaults to 60",
+      exclusiveMinimum: 0,
+    },
+    pollIntervalSeconds: {
+      type: "number",
+      description: "defaults to 30",
+      exclusiveMinimum: 0,
+    },
+  },
+  required: ["inputFolderPaths"],
+  additionalProperties: false,
+};
+
+export function validateWatchConfig(
+  watch: WatchConfig | undefined
+): readonly string[] {
+  const problems: string[] = [];
+  watch?.inputFolderPaths.forEach((folderPath, i) => {
+    if (!existsSync(folderPath)) {
+      problems.push(`config.watch.inputFolderPaths[${i}] does not exist`);
+    }
+  });
+  return problems;
+}
+
+function findWatchedFiles(
+  inputFolderPaths: readonly string[]
+): readonly WatchedFile[] {
+  const ret: WatchedFile[] = [];
+  for (const folderPath of inputFolderPaths) {
+    try {
+      const { movies, unparseableFilePaths } = scanFolderForMovies(folderPath);
+      ret.push(
+        ...movies.map((movie) => ({ filePath: movie.inputFilePath, movie })),
+        ...unparseableFilePaths.map((filePath) => ({
+          filePath,
+          movie: undefined,
+        }))
+      );
+    } catch (ex) {
+      // e.g. an unmounted network share, which may come back later
+      console.error(
+        `Could not scan ${folderPath}: ${ex instanceof Error ? ex.message : ex}`
+      );
+    }
+  }
+  return ret;
+}
+
+function isSameFingerprint(a: FileFingerprint, b: FileFingerprint): boolean {
+  return a.sizeBytes === b.sizeBytes && a.mtimeMs === b.mtimeMs;
+}
+
+// files that another process holds an exclusive lock on, e.g. on Windows, cannot be opened
+function canBeOpened(filePath: string): boolean {
+  try {
+    closeSync(openSync(filePath, "r"));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// returns the written contents, the file is only rewritten when they change
+function writePendingList(
+  outputFolderPath: string,
+  queue: ConversionQueue,
+  writtenPendingList: string | undefined
+): string {
+  const pendingMovies: PendingMovie[] = [
+    ...queue.getUnidentifiedFilePaths().map((inputFilePath) => ({
+      title: undefined,
+      year: undefined,
+      inputFilePath,
+      reason: "Could not determine title and year from the path",
+    })),
+    ...queue
+      .getPendingSummaries()
+      .map(({ title, year, inputFilePath, reason }) => ({
+        title,
+        year,
+        inputFilePath,
+        reason: reason ?? "",
+      })),
+  ];
+  const pendingList = `${JSON.stringify(pendingMovies, null, 2)}\n`;
+  if (pendingList !== writtenPendingList) {
+    writeFileSync(join(outputFolderPath, pendingListFileName), pendingList);
+  }
+  return pendingList;
+}